@@ -6,10 +6,10 @@
 import axios, { AxiosInstance, AxiosError } from 'axios';
 import { promisify } from 'util';
 import { exec } from 'child_process';
+import { AsyncLocalStorage } from 'async_hooks';
 import dns from 'dns';
 import os from 'os';
 import {
-  AuthResponse,
   TRPCRequest,
   TRPCResponse,
   TRPCError,
@@ -30,8 +30,15 @@ import {
   LicenseActivationRequest,
   LicenseActivationResponse,
 } from '../types/easypanel.js';
-import { getPlanDetector } from '../utils/planDetection.js';
+import { PlanDetector } from '../utils/planDetection.js';
+import { getConfig, InstanceConfig } from '../config.js';
 import { UpgradeTipFormatter } from '../utils/upgradeTips.js';
+import { recordAudit } from '../utils/audit.js';
+import { BrowserCacheStore, CacheStore, FileCacheStore, getCacheDirectory, getCacheFilePath } from '../utils/cacheStore.js';
+import { createLogger, getCorrelationId } from '../utils/logger.js';
+import { registerSecretValue } from '../utils/redaction.js';
+import { apiErrors, apiRequestDuration, cacheHits, cacheMisses, metrics } from '../utils/metrics.js';
+import { withSpan } from '../utils/tracing.js';
 import {
   validateProjectServiceName,
   validateDockerImage,
@@ -47,8 +54,29 @@ import {
   validateGitRef,
 } from '../utils/validation.js';
 import { ValidationError } from '../utils/errors.js';
+import {
+  describeSchemaDrift,
+  MutationProcedure,
+  parseProcedureResponse,
+  ProcedureInput,
+  ProcedureName,
+  ProcedureOutput,
+  QueryProcedure,
+} from './procedures.js';
+
+const logger = createLogger('EasyPanel');
+
+// When each axios request was sent, for the request latency metric
+const requestStartTimes = new WeakMap<object, number>();
+
+const execShell = promisify(exec);
 
-const execAsync = promisify(exec);
+/**
+ * Run a shell command of the system checks in its own span
+ */
+function execAsync(command: string): Promise<{ stdout: string; stderr: string }> {
+  return withSpan(`exec ${command.split(' ')[0]}`, { attributes: { 'process.command_line': command } }, () => execShell(command));
+}
 
 // Global type declarations for browser environment
 interface GlobalStorage {
@@ -79,6 +107,7 @@ export enum ErrorCategory {
   NETWORK = 'NETWORK',
   VALIDATION = 'VALIDATION',
   EASYPANEL_API = 'EASYPANEL_API',
+  SCHEMA_DRIFT = 'SCHEMA_DRIFT',
   UNKNOWN = 'UNKNOWN',
 }
 
@@ -91,6 +120,7 @@ export class EasyPanelError extends Error {
   public readonly statusCode?: number;
   public readonly retryable: boolean;
   public readonly cacheHints?: string[];
+  public readonly attempts: number;
 
   constructor({
     message,
@@ -101,6 +131,7 @@ export class EasyPanelError extends Error {
     statusCode,
     retryable = false,
     cacheHints,
+    attempts = 1,
   }: {
     message: string;
     category: ErrorCategory;
@@ -110,6 +141,7 @@ export class EasyPanelError extends Error {
     statusCode?: number;
     retryable?: boolean;
     cacheHints?: string[];
+    attempts?: number;
   }) {
     super(message);
     this.name = 'EasyPanelError';
@@ -120,6 +152,7 @@ export class EasyPanelError extends Error {
     this.statusCode = statusCode;
     this.retryable = retryable;
     this.cacheHints = cacheHints;
+    this.attempts = attempts;
 
     // Maintains proper stack trace for where our error was thrown
     if (Error.captureStackTrace) {
@@ -189,6 +222,31 @@ interface CacheStats {
   misses: number;
   entries: number;
   totalSize: number;
+  // Queries that shared an identical request already in flight
+  coalesced: number;
+}
+
+// A query waiting to go out in the next batched request
+interface QueuedQuery {
+  procedure: QueryProcedure;
+  input?: ProcedureInput<QueryProcedure>;
+  resolve: (result: any) => void;
+  reject: (error: unknown) => void;
+}
+
+// Keeps batched GET URLs well below common length limits
+const MAX_BATCH_SIZE = 10;
+
+// Statuses a tRPC server without batching answers a ?batch=1 request with
+const BATCH_REJECTED_STATUSES = new Set([400, 404, 405]);
+
+export const DEFAULT_INSTANCE_NAME = 'default';
+
+/**
+ * A named EasyPanel instance the server can talk to
+ */
+export interface EasyPanelInstance extends InstanceConfig {
+  name: string;
 }
 
 export class EasyPanelClient {
@@ -197,7 +255,9 @@ export class EasyPanelClient {
   private baseUrl: string;
   private email: string;
   private password: string;
-  private planDetector = getPlanDetector();
+  private port: string;
+  private planDetector = new PlanDetector();
+  readonly instanceName: string;
 
   // ==================== ERROR HANDLING ====================
 
@@ -207,9 +267,9 @@ export class EasyPanelClient {
   private extractOperationFromConfig(config?: any): string | undefined {
     if (!config) return undefined;
 
-    // Extract from URL
+    // Extract from URL, which is usually relative to the /api/trpc base URL
     if (config.url) {
-      const match = config.url.match(/\/api\/trpc\/(.+?)(\?|$)/);
+      const match = config.url.match(/\/api\/trpc\/(.+?)(\?|$)/) || config.url.match(/^\/([^/?]+)(\?|$)/);
       if (match) {
         return match[1];
       }
@@ -218,6 +278,22 @@ export class EasyPanelClient {
     return undefined;
   }
 
+  /**
+   * Procedure label for request metrics; tRPC batches join several procedures with commas
+   */
+  private metricProcedure(config?: any): string {
+    const operation = this.extractOperationFromConfig(config);
+    if (!operation) return 'unknown';
+    return operation.includes(',') ? 'batch' : operation;
+  }
+
+  private observeRequest(config: object | undefined, outcome: 'success' | 'error'): void {
+    const startedAt = config && requestStartTimes.get(config);
+    if (startedAt !== undefined) {
+      apiRequestDuration.observeSince({ procedure: this.metricProcedure(config), outcome }, startedAt);
+    }
+  }
+
   /**
    * Create enhanced EasyPanelError from axios error
    */
@@ -242,7 +318,25 @@ export class EasyPanelClient {
     const cacheHints = this.buildCacheHints(category, operation);
 
     // Build descriptive message
-    const message = this.buildErrorMessage(category, originalMessage, status, operation);
+    let message = this.buildErrorMessage(category, originalMessage, status, operation);
+
+    // Name the timeout that applied, so the right setting gets raised
+    if (category === ErrorCategory.TIMEOUT && operation) {
+      const timeout = this.getRequestTimeout(operation);
+      const ms = error.config?.timeout || timeout.ms;
+      if (timeout.source === 'timeoutMs') {
+        message = `Request to ${operation} timed out after ${ms}ms (timeoutMs set by the tool call)`;
+        suggestions.unshift('Pass a larger timeoutMs, or leave it out to use the configured timeout');
+      } else {
+        message = `Request to ${operation} timed out after ${ms}ms (${timeout.source} timeout)`;
+        suggestions.unshift(
+          `Raise the ${timeout.source} timeout with ${timeoutEnvVar(timeout.source)} or "timeouts.${timeout.source}" in the config file, ` +
+          'or pass timeoutMs to this tool call'
+        );
+      }
+    }
+
+    apiErrors.inc({ procedure: this.metricProcedure(error.config), category });
 
     return new EasyPanelError({
       message,
@@ -256,6 +350,45 @@ export class EasyPanelClient {
     });
   }
 
+  /**
+   * Timeout for a request to a procedure: the tool call's timeoutMs if set, otherwise its timeout class
+   */
+  private getRequestTimeout(procedure: string): RequestTimeout {
+    const override = timeoutOverrideStorage.getStore();
+    if (override !== undefined) {
+      return { ms: override, source: 'timeoutMs' };
+    }
+
+    const timeoutClass = getTimeoutClass(procedure);
+    return { ms: this.timeouts[timeoutClass], source: timeoutClass };
+  }
+
+  /**
+   * Check a response against the procedure catalog
+   */
+  private parseResponse<P extends ProcedureName>(procedure: P, data: unknown, sent: boolean): ProcedureOutput<P> {
+    const parsed = parseProcedureResponse(procedure, data);
+    if (parsed.success) {
+      return parsed.data;
+    }
+
+    const issues = describeSchemaDrift(parsed.error);
+    logger.warn(`Unexpected response shape from ${procedure}: ${issues.join('; ')}`);
+    apiErrors.inc({ procedure, category: ErrorCategory.SCHEMA_DRIFT });
+
+    throw new EasyPanelError({
+      message: `EasyPanel returned an unexpected response for ${procedure} (schema drift): ${issues.join('; ')}`,
+      category: ErrorCategory.SCHEMA_DRIFT,
+      operation: procedure,
+      originalError: parsed.error,
+      suggestions: [
+        ...(sent ? [`The ${procedure} request reached EasyPanel and may have been applied; only its response could not be read`] : []),
+        'The EasyPanel version on this server may have changed its API',
+        'Check for a newer easypanel-mcp release that supports this EasyPanel version',
+      ],
+    });
+  }
+
   /**
    * Categorize error based on type and status
    */
@@ -503,6 +636,93 @@ export class EasyPanelClient {
     }
   }
 
+  /**
+   * Compute the delay before the next attempt: exponential backoff with jitter, or Retry-After when present
+   */
+  private getRetryDelay(attempt: number, error: EasyPanelError): number {
+    const retryAfter = this.parseRetryAfter(error);
+    if (retryAfter !== undefined) {
+      return Math.min(retryAfter, this.maxRetryAfter);
+    }
+
+    const { baseDelay, maxDelay, backoffFactor } = this.retryConfig;
+    const backoff = Math.min(baseDelay * Math.pow(backoffFactor, attempt - 1), maxDelay);
+
+    // Equal jitter: keep half the backoff, randomize the other half
+    return Math.round(backoff / 2 + Math.random() * (backoff / 2));
+  }
+
+  /**
+   * Read the Retry-After header (seconds or HTTP date) from the failed response
+   */
+  private parseRetryAfter(error: EasyPanelError): number | undefined {
+    const header = (error.originalError as AxiosError | undefined)?.response?.headers?.['retry-after'];
+    if (header === undefined || header === null || header === '') {
+      return undefined;
+    }
+
+    const value = String(header);
+    const seconds = Number(value);
+    if (!Number.isNaN(seconds)) {
+      return Math.max(0, seconds * 1000);
+    }
+
+    const date = Date.parse(value);
+    if (!Number.isNaN(date)) {
+      return Math.max(0, date - Date.now());
+    }
+
+    return undefined;
+  }
+
+  /**
+   * Run a request, retrying retryable failures according to retryConfig
+   */
+  private async withRetry<T>(procedure: string, retryable: boolean, request: () => Promise<T>): Promise<T> {
+    const maxAttempts = retryable ? Math.max(1, this.retryConfig.maxAttempts) : 1;
+
+    for (let attempt = 1; ; attempt++) {
+      try {
+        return await request();
+      } catch (error) {
+        if (!(error instanceof EasyPanelError)) {
+          throw error;
+        }
+
+        if (!error.retryable || attempt >= maxAttempts) {
+          throw attempt > 1 ? this.withAttemptInfo(error, attempt) : error;
+        }
+
+        const delay = this.getRetryDelay(attempt, error);
+        logger.warn(
+          `${procedure} failed (attempt ${attempt}/${maxAttempts}, ${error.category}` +
+          `${error.statusCode ? ` ${error.statusCode}` : ''}), retrying in ${delay}ms`
+        );
+        await new Promise(resolve => setTimeout(resolve, delay));
+      }
+    }
+  }
+
+  /**
+   * Copy an error with the number of attempts recorded in its suggestions
+   */
+  private withAttemptInfo(error: EasyPanelError, attempts: number): EasyPanelError {
+    return new EasyPanelError({
+      message: error.message,
+      category: error.category,
+      operation: error.operation,
+      suggestions: [
+        `The request was attempted ${attempts} times with exponential backoff before giving up`,
+        ...error.suggestions,
+      ],
+      originalError: error.originalError,
+      statusCode: error.statusCode,
+      retryable: error.retryable,
+      cacheHints: error.cacheHints,
+      attempts,
+    });
+  }
+
   /**
    * Check if error is likely plan/limit-related
    */
@@ -516,20 +736,11 @@ export class EasyPanelClient {
    */
   public handleError(error: unknown, context?: string): void {
     if (error instanceof EasyPanelError) {
-      console.error(`[EasyPanel Error] ${error.category}: ${error.getFormattedMessage()}`);
-      if (context) {
-        console.error(`[Context] ${context}`);
-      }
+      logger.error(`${error.category}: ${error.getFormattedMessage()}`, context ? { context } : undefined);
     } else if (error instanceof Error) {
-      console.error(`[EasyPanel] Unexpected error: ${error.message}`);
-      if (context) {
-        console.error(`[Context] ${context}`);
-      }
+      logger.error(`Unexpected error: ${error.message}`, context ? { context } : undefined);
     } else {
-      console.error(`[EasyPanel] Unknown error:`, error);
-      if (context) {
-        console.error(`[Context] ${context}`);
-      }
+      logger.error('Unknown error', { error, ...(context ? { context } : {}) });
     }
   }
 
@@ -552,18 +763,20 @@ export class EasyPanelClient {
     misses: 0,
     entries: 0,
     totalSize: 0,
+    coalesced: 0,
   };
+  // Queries awaiting a response, keyed like the cache
+  private inFlight: Map<string, Promise<unknown>> = new Map();
+  // Queries issued in the current tick, sent together as one tRPC batch
+  private queuedQueries: QueuedQuery[] = [];
+  private batchingSupported: boolean = true;
   private cacheEnabled: boolean = true;
   private persistentCache: boolean = false;
-  private storageKey: string = 'easypanel-cache';
+  private cacheStore?: CacheStore;
   private isBrowser: boolean = typeof globalThis !== 'undefined' && globalThis.window !== undefined;
 
   // Timeout configurations (in milliseconds)
-  private timeouts: TimeoutConfig = {
-    deploy: 5 * 60 * 1000, // 5 minutes
-    create: 2 * 60 * 1000, // 2 minutes
-    default: 30 * 1000,    // 30 seconds
-  };
+  private timeouts: TimeoutConfig = getTimeoutConfig();
 
   // Retry configuration
   private retryConfig: RetryConfig = {
@@ -573,20 +786,46 @@ export class EasyPanelClient {
     backoffFactor: 2,     // Double the delay each retry
   };
 
-  constructor() {
-    this.baseUrl = process.env.EASYPANEL_URL || '';
-    this.email = process.env.EASYPANEL_EMAIL || '';
-    this.password = process.env.EASYPANEL_PASSWORD || '';
-    this.token = process.env.EASYPANEL_TOKEN || null;
+  // Upper bound for a server-provided Retry-After delay
+  private readonly maxRetryAfter = 60 * 1000; // 1 minute
+
+  // Mutations that set state to a given value and are therefore safe to re-send
+  private readonly idempotentMutations = new Set<string>([
+    'services.app.updateEnv',
+    'services.app.updateResources',
+    'services.app.updateSourceImage',
+    'services.app.updateSourceGit',
+    'services.app.updateSourceDockerfile',
+    'services.app.updateDomains',
+    'services.app.startService',
+    'services.app.stopService',
+    'services.redis.updatePassword',
+  ]);
+
+  constructor(instance: EasyPanelInstance = getEnvironmentInstance()) {
+    this.instanceName = instance.name;
+    this.baseUrl = (instance.url || '').replace(/\/+$/, '');
+    this.email = instance.email || '';
+    this.password = instance.password || '';
+    this.token = instance.token || null;
+    registerSecretValue(this.password);
+    registerSecretValue(this.token);
+    // Export both series from the start, so the first hit is not read as a new series
+    cacheHits.inc({ instance: this.instanceName }, 0);
+    cacheMisses.inc({ instance: this.instanceName }, 0);
+    this.port = instance.port || '3000';
 
     if (!this.baseUrl) {
       throw new EasyPanelError({
-        message: 'EASYPANEL_URL environment variable is required',
+        message: this.instanceName === DEFAULT_INSTANCE_NAME
+          ? 'EASYPANEL_URL environment variable is required'
+          : `No URL configured for EasyPanel instance '${this.instanceName}'`,
         category: ErrorCategory.VALIDATION,
         operation: 'initialization',
         suggestions: [
           'Set the EASYPANEL_URL environment variable',
           'Example: export EASYPANEL_URL="https://your-easypanel.com"',
+          'Or define the instance with a "url" in the "instances" section of the config file',
           'Ensure the URL includes the protocol (http:// or https://)'
         ]
       });
@@ -606,6 +845,12 @@ export class EasyPanelClient {
         if (this.token) {
           config.headers['Authorization'] = `Bearer ${this.token}`;
         }
+        // Lets EasyPanel-side logs be matched with ours
+        const correlationId = getCorrelationId();
+        if (correlationId) {
+          config.headers['X-Correlation-ID'] = correlationId;
+        }
+        requestStartTimes.set(config, Date.now());
         return config;
       },
       (error) => Promise.reject(error)
@@ -613,8 +858,12 @@ export class EasyPanelClient {
 
     // Add response interceptor for enhanced error handling
     this.client.interceptors.response.use(
-      (response) => response,
+      (response) => {
+        this.observeRequest(response.config, response.status < 400 ? 'success' : 'error');
+        return response;
+      },
       async (error: AxiosError<TRPCError>) => {
+        this.observeRequest(error.config, 'error');
         const status = error.response?.status;
         const errorData = error.response?.data;
         const operation = this.extractOperationFromConfig(error.config);
@@ -622,7 +871,7 @@ export class EasyPanelClient {
         // Handle authentication errors
         if (status === 401 && this.email && this.password) {
           try {
-            console.error('[EasyPanel] Token expired, re-authenticating...');
+            logger.info('Token expired, re-authenticating...');
             await this.authenticate();
 
             // Retry the original request
@@ -640,6 +889,11 @@ export class EasyPanelClient {
         throw this.createError(error, undefined, operation);
       }
     );
+
+    // Reuse data cached by earlier runs, so restarting the server does not re-fetch it
+    if (!this.isBrowser && getCacheDirectory()) {
+      this.setPersistentCache(true);
+    }
   }
 
   /**
@@ -648,7 +902,7 @@ export class EasyPanelClient {
   async authenticate(): Promise<void> {
     if (!this.email || !this.password) {
       if (this.token) {
-        console.error('[EasyPanel] Using pre-configured token');
+        logger.debug('Using pre-configured token');
         return;
       }
       throw new EasyPanelError({
@@ -666,7 +920,7 @@ export class EasyPanelClient {
     }
 
     try {
-      const response = await axios.post<TRPCResponse<AuthResponse>>(
+      const response = await axios.post<TRPCResponse<unknown>>(
         `${this.baseUrl}/api/trpc/auth.login`,
         {
           json: {
@@ -676,8 +930,9 @@ export class EasyPanelClient {
         } as TRPCRequest
       );
 
-      this.token = response.data.result.data.json.token;
-      console.error('[EasyPanel] Authentication successful');
+      this.token = this.parseResponse('auth.login', response.data.result.data.json, false).token;
+      registerSecretValue(this.token);
+      logger.info(`Authentication successful for instance '${this.instanceName}'`);
     } catch (error) {
       if (error instanceof AxiosError) {
         throw this.createError(error, ErrorCategory.AUTHENTICATION, 'auth.login');
@@ -705,12 +960,18 @@ export class EasyPanelClient {
 
     // Extract project and service from input if present
     if (input && typeof input === 'object') {
-      const inputObj = input as Record<string, unknown>;
-      if (inputObj.projectName) {
-        parts.push(inputObj.projectName as string);
+      const { projectName, serviceName, ...rest } = input as Record<string, unknown>;
+      if (projectName) {
+        parts.push(projectName as string);
       }
-      if (inputObj.serviceName) {
-        parts.push(inputObj.serviceName as string);
+      if (serviceName) {
+        parts.push(serviceName as string);
+      }
+
+      // Any other input (build id, log query, license type) makes a distinct request
+      const extra = Object.keys(rest).sort().filter(key => rest[key] !== undefined);
+      if (extra.length > 0) {
+        parts.push(JSON.stringify(extra.map(key => [key, rest[key]])));
       }
     }
 
@@ -736,17 +997,20 @@ export class EasyPanelClient {
 
     if (!entry) {
       this.cacheStats.misses++;
+      cacheMisses.inc({ instance: this.instanceName });
       return null;
     }
 
     if (!this.isCacheValid(entry)) {
       this.cache.delete(key);
       this.cacheStats.misses++;
+      cacheMisses.inc({ instance: this.instanceName });
       return null;
     }
 
     this.cacheStats.hits++;
-    console.error(`[EasyPanel] Cache hit for key: ${key}`);
+    cacheHits.inc({ instance: this.instanceName });
+    logger.debug(`Cache hit for key: ${key}`);
     return entry.data;
   }
 
@@ -772,7 +1036,7 @@ export class EasyPanelClient {
       this.savePersistedCache();
     }
 
-    console.error(`[EasyPanel] Cached data for key: ${key} (TTL: ${entry.ttl}ms)`);
+    logger.debug(`Cached data for key: ${key} (TTL: ${entry.ttl}ms)`);
   }
 
   /**
@@ -808,6 +1072,7 @@ export class EasyPanelClient {
       misses: 0,
       entries: this.cache.size,
       totalSize: 0,
+      coalesced: 0,
     };
 
     // Update persistent storage if enabled
@@ -817,14 +1082,11 @@ export class EasyPanelClient {
         this.savePersistedCache();
       } else {
         // Clear persisted cache completely
-        if (globalThis.window) {
-          globalThis.window.localStorage.removeItem(this.storageKey);
-          globalThis.window.sessionStorage.removeItem(this.storageKey);
-        }
+        this.clearPersistedCache();
       }
     }
 
-    console.error(`[EasyPanel] Cache cleared${pattern ? ` (pattern: ${pattern})` : ''}`);
+    logger.debug(`Cache cleared${pattern ? ` (pattern: ${pattern})` : ''}`);
   }
 
   /**
@@ -848,7 +1110,7 @@ export class EasyPanelClient {
     if (!enabled) {
       this.clearCache();
     }
-    console.error(`[EasyPanel] Cache ${enabled ? 'enabled' : 'disabled'}`);
+    logger.info(`Cache ${enabled ? 'enabled' : 'disabled'}`);
   }
 
   /**
@@ -856,7 +1118,7 @@ export class EasyPanelClient {
    */
   setCacheTTL(ttl: number): void {
     this.defaultTTL = ttl;
-    console.error(`[EasyPanel] Cache TTL set to ${ttl}ms`);
+    logger.info(`Cache TTL set to ${ttl}ms`);
   }
 
   /**
@@ -872,33 +1134,41 @@ export class EasyPanelClient {
     this.updateCacheStats();
   }
 
+  // Procedures whose results outlive the process. Others (inspectProject, service data)
+  // can carry env values and other secrets, so they are only ever cached in memory.
+  private readonly persistableProcedures = new Set<string>([
+    'projects.listProjectsAndServices',
+    'auth.getSession',
+    'license.getPayload',
+  ]);
+
+  private isPersistable(key: string): boolean {
+    return this.persistableProcedures.has(key.split(':')[0]);
+  }
+
   /**
-   * Load cache from persistent storage (localStorage/sessionStorage)
+   * Load cache from persistent storage, skipping entries whose TTL has run out
    */
   private loadPersistedCache(): void {
-    if (!this.persistentCache || !globalThis.window) return;
+    if (!this.persistentCache || !this.cacheStore) return;
 
     try {
-      const stored = globalThis.window.localStorage.getItem(this.storageKey) ||
-                   globalThis.window.sessionStorage.getItem(this.storageKey);
-
-      if (stored) {
-        const data = JSON.parse(stored);
-        const now = Date.now();
+      const data = this.cacheStore.load() as Record<string, CacheEntry<unknown>> | null;
 
+      if (data) {
         // Only restore valid entries
         Object.keys(data).forEach(key => {
           const entry = data[key];
-          if (now - entry.timestamp < entry.ttl) {
+          if (this.isPersistable(key) && entry && this.isCacheValid(entry)) {
             this.cache.set(key, entry);
           }
         });
 
         this.updateCacheStats();
-        console.error(`[EasyPanel] Loaded ${this.cache.size} entries from persistent cache`);
+        logger.info(`Loaded ${this.cache.size} entries from persistent cache (${this.cacheStore.location})`);
       }
     } catch (error) {
-      console.error('[EasyPanel] Failed to load persistent cache:', error);
+      logger.warn('Failed to load persistent cache', { error });
     }
   }
 
@@ -906,89 +1176,236 @@ export class EasyPanelClient {
    * Save cache to persistent storage
    */
   private savePersistedCache(): void {
-    if (!this.persistentCache || !globalThis.window) return;
+    if (!this.persistentCache || !this.cacheStore) return;
 
     try {
-      const data = Object.fromEntries(this.cache.entries());
-      const serialized = JSON.stringify(data);
+      const data = Object.fromEntries(
+        Array.from(this.cache.entries()).filter(([key, entry]) => this.isPersistable(key) && this.isCacheValid(entry))
+      );
+      this.cacheStore.save(data);
 
-      // Try localStorage first, fallback to sessionStorage
-      try {
-        globalThis.window.localStorage.setItem(this.storageKey, serialized);
-      } catch (e) {
-        // localStorage might be full, try sessionStorage
-        globalThis.window.sessionStorage.setItem(this.storageKey, serialized);
-      }
+      logger.debug(`Saved ${Object.keys(data).length} entries to persistent cache`);
+    } catch (error) {
+      logger.warn('Failed to save persistent cache', { error });
+    }
+  }
 
-      console.error(`[EasyPanel] Saved ${this.cache.size} entries to persistent cache`);
+  private clearPersistedCache(): void {
+    try {
+      this.cacheStore?.clear();
     } catch (error) {
-      console.error('[EasyPanel] Failed to save persistent cache:', error);
+      logger.warn('Failed to clear persistent cache', { error });
     }
   }
 
   /**
-   * Enable/disable persistent cache storage
+   * Enable/disable persistent cache storage.
+   * Browsers use localStorage under storageKey; Node uses a file per instance and user in the cache directory.
    */
   setPersistentCache(enabled: boolean, storageKey: string = 'easypanel-cache'): void {
-    this.persistentCache = enabled;
-    this.storageKey = storageKey;
-
     if (enabled) {
+      const directory = getCacheDirectory();
+      if (this.isBrowser) {
+        this.cacheStore = new BrowserCacheStore(storageKey);
+      } else if (directory) {
+        this.cacheStore = new FileCacheStore(
+          getCacheFilePath(directory, this.instanceName, this.baseUrl, this.email || this.token || '')
+        );
+      } else {
+        logger.info('Persistent cache is disabled by configuration');
+        return;
+      }
+
+      this.persistentCache = true;
       this.loadPersistedCache();
     } else {
       // Clear persisted cache
-      if (globalThis.window) {
-        globalThis.window.localStorage.removeItem(this.storageKey);
-        globalThis.window.sessionStorage.removeItem(this.storageKey);
-      }
+      this.clearPersistedCache();
+      this.persistentCache = false;
+      this.cacheStore = undefined;
     }
 
-    console.error(`[EasyPanel] Persistent cache ${enabled ? 'enabled' : 'disabled'}`);
+    logger.info(`Persistent cache ${enabled ? `enabled (${this.cacheStore!.location})` : 'disabled'}`);
   }
 
   /**
    * Make a tRPC query (GET request)
    */
-  async query<T>(procedure: string, input?: unknown, options?: { useCache?: boolean; ttl?: number }): Promise<T> {
+  async query<P extends QueryProcedure>(
+    procedure: P,
+    input?: ProcedureInput<P>,
+    options?: { useCache?: boolean; ttl?: number }
+  ): Promise<ProcedureOutput<P>> {
     await this.ensureAuthenticated();
 
+    const cacheKey = this.generateCacheKey(procedure, input);
+
     // Check cache first (if enabled for this query)
     const useCache = options?.useCache !== false && this.shouldUseCache(procedure);
     if (useCache) {
       this.cleanupExpiredEntries(); // Clean up expired entries first
-      const cacheKey = this.generateCacheKey(procedure, input);
-      const cachedData = this.getFromCache<T>(cacheKey);
+      const cachedData = this.getFromCache<ProcedureOutput<P>>(cacheKey);
       if (cachedData !== null) {
         return cachedData;
       }
     }
 
-    let result: T;
-    let error: Error | undefined;
+    // Share an identical request that is already on its way instead of sending another
+    const pending = this.inFlight.get(cacheKey);
+    if (pending) {
+      this.cacheStats.coalesced++;
+      return pending as Promise<ProcedureOutput<P>>;
+    }
+
+    const request = this.fetchQuery(procedure, input).finally(() => {
+      this.inFlight.delete(cacheKey);
+    });
+    this.inFlight.set(cacheKey, request);
+
+    const result = await request;
+
+    // Store in cache if applicable
+    if (useCache && result) {
+      this.setCache(cacheKey, result, options?.ttl);
+    }
+
+    return result;
+  }
+
+  /**
+   * Send a tRPC query to EasyPanel, bypassing the cache.
+   * Queries issued in the same tick are combined into one batched request.
+   */
+  private fetchQuery<P extends QueryProcedure>(procedure: P, input?: ProcedureInput<P>): Promise<ProcedureOutput<P>> {
+    // A call with its own timeoutMs goes out alone so the override cannot leak into a shared batch
+    if (!this.batchingSupported || timeoutOverrideStorage.getStore() !== undefined) {
+      return this.sendQuery(procedure, input);
+    }
+
+    return new Promise((resolve, reject) => {
+      this.queuedQueries.push({ procedure, input, resolve, reject });
+      if (this.queuedQueries.length === 1) {
+        // Let the rest of this tick's queries join before sending
+        setTimeout(() => this.flushQueuedQueries(), 0);
+      }
+    });
+  }
+
+  /**
+   * Send the queued queries, batching them when there is more than one
+   */
+  private flushQueuedQueries(): void {
+    const queued = this.queuedQueries;
+    this.queuedQueries = [];
+
+    for (let start = 0; start < queued.length; start += MAX_BATCH_SIZE) {
+      const batch = queued.slice(start, start + MAX_BATCH_SIZE);
+      if (batch.length === 1 || !this.batchingSupported) {
+        batch.forEach(query => this.sendQuery(query.procedure, query.input).then(query.resolve, query.reject));
+      } else {
+        void this.sendBatch(batch);
+      }
+    }
+  }
+
+  /**
+   * Send several queries as one tRPC batch (GET /a,b?batch=1) and hand each caller its own result.
+   * Items that failed, and whole batches the server would not answer, are re-sent one at a time
+   * so they get the usual retries and error details.
+   */
+  private async sendBatch(batch: QueuedQuery[]): Promise<void> {
+    const path = batch.map(query => query.procedure).join(',');
+    const input = Object.fromEntries(batch.map((query, index) => [index, { json: query.input ?? null }]));
+    let items: Array<Partial<TRPCResponse<unknown>>> | undefined;
+
+    try {
+      const response = await this.traced('query batch', 'GET', { 'easypanel.procedure': path, 'easypanel.batch.size': batch.length }, () =>
+        this.client.get(`/${path}?batch=1&input=${encodeURIComponent(JSON.stringify(input))}`, {
+          timeout: Math.max(...batch.map(query => this.getRequestTimeout(query.procedure).ms)),
+          validateStatus: () => true,
+        })
+      );
+
+      if (Array.isArray(response.data) && response.data.length === batch.length) {
+        items = response.data;
+      } else if (response.status < 300 || BATCH_REJECTED_STATUSES.has(response.status)) {
+        this.batchingSupported = false;
+        logger.warn(`Instance '${this.instanceName}' does not accept batched queries (HTTP ${response.status}), sending them one at a time`);
+      }
+    } catch (error) {
+      // Network failure: the single requests below retry it
+    }
+
+    batch.forEach((query, index) => {
+      const item = items?.[index];
+      if (!item?.result) {
+        this.sendQuery(query.procedure, query.input).then(query.resolve, query.reject);
+        return;
+      }
+
+      try {
+        const result = this.parseResponse(query.procedure, item.result.data.json, false);
+        this.planDetector.trackUsage(query.procedure, result);
+        query.resolve(result);
+      } catch (error) {
+        this.planDetector.trackUsage(query.procedure, null, error);
+        query.reject(error);
+      }
+    });
+  }
 
+  /**
+   * Send a single tRPC query (GET request)
+   */
+  private async sendQuery<P extends QueryProcedure>(procedure: P, input?: ProcedureInput<P>, retryable: boolean = true): Promise<ProcedureOutput<P>> {
     try {
       // EasyPanel requires input parameter even for queries without input
       const inputData = input !== undefined ? { json: input } : { json: null };
       const params = `?input=${encodeURIComponent(JSON.stringify(inputData))}`;
-      const response = await this.client.get<TRPCResponse<T>>(`/${procedure}${params}`);
-      result = response.data.result.data.json;
+      const response = await this.withRetry(procedure, retryable, () =>
+        this.traced(`query ${procedure}`, 'GET', { 'easypanel.procedure': procedure }, () =>
+          this.client.get<TRPCResponse<unknown>>(`/${procedure}${params}`, {
+            timeout: this.getRequestTimeout(procedure).ms,
+          })
+        )
+      );
+      const result = this.parseResponse(procedure, response.data.result.data.json, false);
 
       // Track successful operation
       this.planDetector.trackUsage(procedure, result);
+      return result;
     } catch (e) {
-      error = e instanceof Error ? e : new Error(String(e));
+      const error = e instanceof Error ? e : new Error(String(e));
       // Track failed operation
       this.planDetector.trackUsage(procedure, null, error);
       throw error;
     }
+  }
 
-    // Store in cache if applicable
-    if (useCache && result) {
-      const cacheKey = this.generateCacheKey(procedure, input);
-      this.setCache(cacheKey, result, options?.ttl);
-    }
-
-    return result;
+  /**
+   * Send one HTTP request to EasyPanel in a client span; each retry gets its own span
+   */
+  private traced<T extends { status: number }>(
+    name: string,
+    method: 'GET' | 'POST',
+    attributes: Record<string, string | number>,
+    request: () => Promise<T>
+  ): Promise<T> {
+    return withSpan(name, {
+      kind: 'client',
+      attributes: { ...attributes, 'http.request.method': method, 'easypanel.instance': this.instanceName },
+    }, async span => {
+      try {
+        const response = await request();
+        span.setAttribute('http.response.status_code', response.status);
+        return response;
+      } catch (error) {
+        if (isEasyPanelError(error)) {
+          span.setAttributes({ 'http.response.status_code': error.statusCode, 'error.type': error.category });
+        }
+        throw error;
+      }
+    });
   }
 
   /**
@@ -1009,7 +1426,7 @@ export class EasyPanelClient {
       'services.app.validateDomain',
       'services.app.getSSLCertificate',
       'services.app.getBuildStatus',
-      'auth.getUser',
+      'auth.getSession',
       'license.getPayload',
     ];
 
@@ -1019,21 +1436,35 @@ export class EasyPanelClient {
   /**
    * Make a tRPC mutation (POST request)
    */
-  async mutate<T>(procedure: string, input: unknown): Promise<T> {
+  async mutate<P extends MutationProcedure>(procedure: P, input: ProcedureInput<P>): Promise<ProcedureOutput<P>> {
+    // In dry-run mode, record what would be sent and return the plan instead
+    const planned = this.planDryRun(procedure, input);
+    if (planned) {
+      return planned as ProcedureOutput<P>;
+    }
+
     await this.ensureAuthenticated();
 
     // Invalidate relevant cache entries before mutation
     this.invalidateCacheForMutation(procedure, input);
 
-    let result: T;
+    let result: ProcedureOutput<P>;
     let error: Error | undefined;
 
     try {
-      const response = await this.client.post<TRPCResponse<T>>(
-        `/${procedure}`,
-        { json: input } as TRPCRequest
+      // Only mutations known to be idempotent are safe to re-send
+      const response = await this.audited(procedure, input, () =>
+        this.withRetry(procedure, this.idempotentMutations.has(procedure), () =>
+          this.traced(`mutate ${procedure}`, 'POST', { 'easypanel.procedure': procedure }, () =>
+            this.client.post<TRPCResponse<unknown>>(
+              `/${procedure}`,
+              { json: input } as TRPCRequest,
+              { timeout: this.getRequestTimeout(procedure).ms }
+            )
+          )
+        )
       );
-      result = response.data.result.data.json;
+      result = this.parseResponse(procedure, response.data.result.data.json, true);
 
       // Track successful operation
       this.planDetector.trackUsage(procedure, result);
@@ -1047,6 +1478,64 @@ export class EasyPanelClient {
     return result;
   }
 
+  /**
+   * Send a query that changes state on the server (EasyPanel serves the Docker prunes as GETs).
+   * It is audited and planned in dry-run mode like a mutation, and never cached, coalesced,
+   * batched or retried. details is what the audit log and the plan record as its input.
+   */
+  private async queryAction<P extends QueryProcedure>(procedure: P, details: unknown): Promise<ProcedureOutput<P>> {
+    const planned = this.planDryRun(procedure, details);
+    if (planned) {
+      return planned as ProcedureOutput<P>;
+    }
+
+    await this.ensureAuthenticated();
+    return this.audited(procedure, details, () => this.sendQuery(procedure, undefined, false));
+  }
+
+  /**
+   * In dry-run mode, record a mutation instead of sending it and return the plan; undefined otherwise
+   */
+  private planDryRun(procedure: string, input: unknown): (PlannedMutation & { dryRun: true; instance: string }) | undefined {
+    const plannedMutations = dryRunStorage.getStore();
+    if (!plannedMutations && !isDryRunEnabled()) {
+      return undefined;
+    }
+
+    const planned: PlannedMutation = {
+      procedure,
+      input,
+      invalidates: this.getInvalidationPatterns(procedure, input),
+    };
+    plannedMutations?.push(planned);
+    recordAudit({ instance: this.instanceName, procedure, input, status: 'dry_run', durationMs: 0 });
+    logger.info(`Dry run: not sending ${procedure} to instance '${this.instanceName}'`);
+    return { dryRun: true, instance: this.instanceName, ...planned };
+  }
+
+  /**
+   * Run a mutation or system action and append its outcome to the audit log
+   */
+  private async audited<T>(procedure: string, input: unknown, run: () => Promise<T>): Promise<T> {
+    const startedAt = Date.now();
+
+    try {
+      const result = await run();
+      recordAudit({ instance: this.instanceName, procedure, input, status: 'success', durationMs: Date.now() - startedAt });
+      return result;
+    } catch (error) {
+      recordAudit({
+        instance: this.instanceName,
+        procedure,
+        input,
+        status: 'error',
+        durationMs: Date.now() - startedAt,
+        error: error instanceof Error ? error.message : String(error),
+      });
+      throw error;
+    }
+  }
+
   /**
    * Explicit mapping of procedures to their cache invalidation rules
    */
@@ -1233,76 +1722,89 @@ export class EasyPanelClient {
       ]
     },
 
+    // MongoDB operations
+    'services.mongo.createService': {
+      global: ['projects.listProjectsAndServices'],
+      project: ['projects.inspectProject']
+    },
+    'services.mongo.destroyService': {
+      global: ['projects.listProjectsAndServices'],
+      project: ['projects.inspectProject'],
+      service: [
+        'monitor.getServiceStats'
+      ]
+    },
+
+    // MariaDB operations
+    'services.mariadb.createService': {
+      global: ['projects.listProjectsAndServices'],
+      project: ['projects.inspectProject']
+    },
+    'services.mariadb.destroyService': {
+      global: ['projects.listProjectsAndServices'],
+      project: ['projects.inspectProject'],
+      service: [
+        'monitor.getServiceStats'
+      ]
+    },
+
     // License operations
     'license.activate': {
-      global: ['license.getPayload', 'auth.getUser']
+      global: ['license.getPayload', 'auth.getSession']
     }
   };
 
   /**
-   * Invalidate cache entries affected by a mutation using explicit mapping
+   * Cache key patterns a mutation invalidates; every cached key containing one of them is cleared
    */
-  private invalidateCacheForMutation(procedure: string, input: unknown): void {
-    if (!this.cacheEnabled) return;
-
-    const inputObj = input as Record<string, unknown>;
-    const projectName = inputObj.projectName as string;
-    const serviceName = inputObj.serviceName as string;
-
-    // Get invalidation rules for this procedure
+  private getInvalidationPatterns(procedure: string, input: unknown): string[] {
     const rules = this.invalidationMap[procedure as keyof typeof this.invalidationMap];
     if (!rules) {
-      console.error(`[EasyPanel] No invalidation rules found for procedure: ${procedure}`);
-      return;
+      return [];
     }
 
-    // Invalidate global cache entries
-    if (rules.global) {
-      rules.global.forEach(key => {
-        this.clearCache(key);
-      });
-    }
+    const inputObj = (input || {}) as Record<string, unknown>;
+    const projectName = inputObj.projectName as string;
+    const serviceName = inputObj.serviceName as string;
+    const patterns: string[] = [...(rules.global || [])];
 
-    // Invalidate project-specific cache entries
+    // Project-specific cache entries
     if (rules.project && projectName) {
-      rules.project.forEach(key => {
-        this.clearCache(`${key}:${projectName}`);
-      });
+      patterns.push(...rules.project.map(key => `${key}:${projectName}`));
     }
 
-    // Invalidate service-specific cache entries
+    // Service-specific cache entries
     if (rules.service && projectName && serviceName) {
-      rules.service.forEach(key => {
-        this.clearCache(`${key}:${projectName}:${serviceName}`);
-      });
+      patterns.push(...rules.service.map(key => `${key}:${projectName}:${serviceName}`));
     }
 
-    // Project-wide invalidation (all services within project)
-    if (rules.projectWide && projectName) {
-      this.clearCache(projectName);
-      // Also clear any cached data for all services in this project
-      this.cache.forEach((_, key) => {
-        if (key.startsWith(`monitor.getServiceStats:${projectName}:`) ||
-            key.startsWith(`services.redis.inspectService:${projectName}:`) ||
-            key.startsWith(`services.app.listDomains:${projectName}:`) ||
-            key.startsWith(`services.app.getBuildStatus:${projectName}:`)) {
-          this.cache.delete(key);
-        }
-      });
+    // Project-wide invalidation, or all services in project (for project destruction)
+    if ((rules.projectWide || rules.allServices) && projectName) {
+      patterns.push(projectName);
     }
 
-    // All services in project (for project destruction)
-    if (rules.allServices && projectName) {
-      this.cache.forEach((_, key) => {
-        if (key.includes(projectName)) {
-          this.cache.delete(key);
-        }
-      });
+    return Array.from(new Set(patterns));
+  }
+
+  /**
+   * Invalidate cache entries affected by a mutation using explicit mapping
+   */
+  private invalidateCacheForMutation(procedure: string, input: unknown): void {
+    if (!this.cacheEnabled) return;
+
+    const rules = this.invalidationMap[procedure as keyof typeof this.invalidationMap];
+    if (!rules) {
+      logger.debug(`No invalidation rules found for procedure: ${procedure}`);
+      return;
     }
 
-    console.error(`[EasyPanel] Cache invalidated for procedure: ${procedure}`, {
-      projectName,
-      serviceName,
+    const patterns = this.getInvalidationPatterns(procedure, input);
+    patterns.forEach(pattern => {
+      this.clearCache(pattern);
+    });
+
+    logger.debug(`Cache invalidated for procedure: ${procedure}`, {
+      patterns,
       rules
     });
   }
@@ -1312,7 +1814,7 @@ export class EasyPanelClient {
   /**
    * List all projects with their services
    */
-  async listProjects(): Promise<unknown[]> {
+  async listProjects(): Promise<ProcedureOutput<'projects.listProjectsAndServices'>> {
     // Use cache with longer TTL since project list changes infrequently
     return this.query('projects.listProjectsAndServices', undefined, {
       useCache: true,
@@ -1334,14 +1836,14 @@ export class EasyPanelClient {
         ttl: 30000 // 30 seconds
       });
 
-      const currentProjectCount = (projectsData as any)?.projects?.length || 0;
+      const currentProjectCount = projectsData.projects.length;
 
       // Most free plans have 3 project limit
       if (currentProjectCount >= 3) {
         const userInfo = await this.getUser();
 
         // Only show upgrade suggestion if user is not subscribed
-        if (!(userInfo as any).isSubscribed) {
+        if (!userInfo.isSubscribed) {
           const upgradeSuggestion = this.getUpgradeSuggestion('project_limit');
 
           if (upgradeSuggestion) {
@@ -1371,7 +1873,7 @@ export class EasyPanelClient {
   /**
    * Inspect a project
    */
-  async inspectProject(projectName: string): Promise<unknown> {
+  async inspectProject(projectName: string): Promise<ProcedureOutput<'projects.inspectProject'>> {
     // Use cache with medium TTL for project inspection
     return this.query('projects.inspectProject', { projectName }, {
       useCache: true,
@@ -1503,6 +2005,21 @@ export class EasyPanelClient {
     });
   }
 
+  /**
+   * Current env text of a service, read past the cache so an edit starts from the latest version
+   */
+  async getEnv(projectName: string, serviceName: string): Promise<string> {
+    validateProjectServiceName(projectName, 'project');
+    validateProjectServiceName(serviceName, 'service');
+
+    const { services } = await this.query('projects.inspectProject', { projectName }, { useCache: false });
+    const service = services.find(candidate => candidate.name === serviceName);
+    if (!service) {
+      throw new ValidationError(`Service '${serviceName}' not found in project '${projectName}'`, 'serviceName', serviceName);
+    }
+    return service.env ?? '';
+  }
+
   /**
    * Update environment variables
    */
@@ -1585,7 +2102,7 @@ export class EasyPanelClient {
   /**
    * Trigger deployment
    */
-  async deployService(projectName: string, serviceName: string): Promise<unknown> {
+  async deployService(projectName: string, serviceName: string): Promise<ProcedureOutput<'services.app.deployService'>> {
     return this.mutate('services.app.deployService', { projectName, serviceName });
   }
 
@@ -1596,6 +2113,26 @@ export class EasyPanelClient {
     return this.mutate('services.app.destroyService', { projectName, serviceName });
   }
 
+  // ==================== DATABASE SERVICES ====================
+
+  /**
+   * A database service of any type with its credentials, read past the cache so a changed password is current
+   */
+  async inspectDatabase(projectName: string, serviceName: string): Promise<ProcedureOutput<'projects.inspectProject'>['services'][number]> {
+    validateProjectServiceName(projectName, 'project');
+    validateProjectServiceName(serviceName, 'service');
+
+    const { services } = await this.query('projects.inspectProject', { projectName }, { useCache: false });
+    const service = services.find(candidate => candidate.name === serviceName);
+    if (!service) {
+      throw new ValidationError(`Service '${serviceName}' not found in project '${projectName}'`, 'serviceName', serviceName);
+    }
+    if (service.type === 'app') {
+      throw new ValidationError(`'${serviceName}' is an app service, not a database`, 'serviceName', serviceName);
+    }
+    return service;
+  }
+
   // ==================== REDIS OPERATIONS ====================
 
   /**
@@ -1618,7 +2155,7 @@ export class EasyPanelClient {
   /**
    * Inspect Redis service
    */
-  async inspectRedis(projectName: string, serviceName: string): Promise<unknown> {
+  async inspectRedis(projectName: string, serviceName: string): Promise<ProcedureOutput<'services.redis.inspectService'>> {
     // Use cache with short TTL for service inspection (services change more frequently)
     return this.query('services.redis.inspectService', { projectName, serviceName }, {
       useCache: true,
@@ -1627,26 +2164,28 @@ export class EasyPanelClient {
   }
 
   /**
-   * Destroy a database service (Redis, MySQL, PostgreSQL)
+   * Destroy a database service (Redis, MySQL, PostgreSQL, MongoDB, MariaDB)
    */
   async destroyDBService(
     projectName: string,
     serviceName: string,
-    type: 'redis' | 'mysql' | 'postgres'
+    type: 'redis' | 'mysql' | 'postgres' | 'mongo' | 'mariadb'
   ): Promise<unknown> {
     // Validate inputs
     validateProjectServiceName(projectName, 'project');
     validateProjectServiceName(serviceName, 'service');
-    if (!['redis', 'mysql', 'postgres'].includes(type)) {
-      throw new ValidationError('Database type must be one of: redis, mysql, postgres');
+    if (!['redis', 'mysql', 'postgres', 'mongo', 'mariadb'].includes(type)) {
+      throw new ValidationError('Database type must be one of: redis, mysql, postgres, mongo, mariadb');
     }
 
     // Map service type to tRPC procedure
     const procedureMap = {
       redis: 'services.redis.destroyService',
       mysql: 'services.mysql.destroyService',
-      postgres: 'services.postgres.destroyService'
-    };
+      postgres: 'services.postgres.destroyService',
+      mongo: 'services.mongo.destroyService',
+      mariadb: 'services.mariadb.destroyService'
+    } as const;
 
     const procedure = procedureMap[type];
     if (!procedure) {
@@ -1732,12 +2271,60 @@ export class EasyPanelClient {
     });
   }
 
+  // ==================== MONGO OPERATIONS ====================
+
+  /**
+   * Create MongoDB service
+   */
+  async createMongo(
+    projectName: string,
+    serviceName: string,
+    databaseName: string,
+    user: string,
+    password: string,
+    image: string = 'mongo:7'
+  ): Promise<unknown> {
+    return this.mutate('services.mongo.createService', {
+      projectName,
+      serviceName,
+      databaseName,
+      user,
+      password,
+      image,
+    });
+  }
+
+  // ==================== MARIADB OPERATIONS ====================
+
+  /**
+   * Create MariaDB service
+   */
+  async createMariaDB(
+    projectName: string,
+    serviceName: string,
+    databaseName: string,
+    user: string,
+    password: string,
+    rootPassword: string,
+    image: string = 'mariadb:11'
+  ): Promise<unknown> {
+    return this.mutate('services.mariadb.createService', {
+      projectName,
+      serviceName,
+      databaseName,
+      user,
+      password,
+      rootPassword,
+      image,
+    });
+  }
+
   // ==================== MONITORING ====================
 
   /**
    * Get service statistics
    */
-  async getServiceStats(projectName: string, serviceName: string): Promise<unknown> {
+  async getServiceStats(projectName: string, serviceName: string): Promise<ProcedureOutput<'monitor.getServiceStats'>> {
     // Use cache with very short TTL for stats (change frequently)
     return this.query('monitor.getServiceStats', { projectName, serviceName }, {
       useCache: true,
@@ -1748,7 +2335,7 @@ export class EasyPanelClient {
   /**
    * Get advanced system-wide statistics
    */
-  async getAdvancedStats(): Promise<unknown> {
+  async getAdvancedStats(): Promise<ProcedureOutput<'monitor.getAdvancedStats'>> {
     // Use cache with medium TTL for system-wide stats
     return this.query('monitor.getAdvancedStats', undefined, {
       useCache: true,
@@ -1759,7 +2346,7 @@ export class EasyPanelClient {
   /**
    * Get system resource statistics (CPU, memory, disk)
    */
-  async getSystemStats(): Promise<unknown> {
+  async getSystemStats(): Promise<ProcedureOutput<'monitor.getSystemStats'>> {
     // Use cache with short TTL for system stats
     return this.query('monitor.getSystemStats', undefined, {
       useCache: true,
@@ -1770,7 +2357,7 @@ export class EasyPanelClient {
   /**
    * Get Docker container task statistics
    */
-  async getDockerTaskStats(): Promise<unknown> {
+  async getDockerTaskStats(): Promise<ProcedureOutput<'monitor.getDockerTaskStats'>> {
     // Use cache with short TTL for Docker stats (change frequently)
     return this.query('monitor.getDockerTaskStats', undefined, {
       useCache: true,
@@ -1781,7 +2368,7 @@ export class EasyPanelClient {
   /**
    * Get formatted monitoring table data
    */
-  async getMonitorTableData(): Promise<unknown> {
+  async getMonitorTableData(): Promise<ProcedureOutput<'monitor.getMonitorTableData'>> {
     // Use cache with short TTL for aggregated monitoring data
     return this.query('monitor.getMonitorTableData', undefined, {
       useCache: true,
@@ -1811,7 +2398,7 @@ export class EasyPanelClient {
     try {
       // First try to get service status to provide helpful context
       const service = await this.query('projects.inspectProject', { projectName });
-      const serviceInfo = (service as any)?.services?.find((s: any) => s.name === serviceName);
+      const serviceInfo = service.services.find(s => s.name === serviceName);
 
       // Return WebSocket URL and service context for client-side connection
       return {
@@ -2082,10 +2669,10 @@ export class EasyPanelClient {
       const service = await this.query('projects.inspectProject', { projectName });
 
       // Find the specific service in the project
-      const serviceInfo = (service as any)?.services?.find((s: any) => s.name === serviceName);
+      const serviceInfo = service.services.find(s => s.name === serviceName);
 
       // Filter out the domain to remove
-      const updatedDomains = (serviceInfo?.domains || []).filter((d: any) => d.id !== domainId && d.domain !== domainId);
+      const updatedDomains = (serviceInfo?.domains || []).filter(d => d.id !== domainId && d.domain !== domainId);
 
       // Update with filtered domains list
       return this.mutate('services.app.updateDomains', {
@@ -2098,6 +2685,22 @@ export class EasyPanelClient {
     }
   }
 
+  /**
+   * Replace the full domain list of a service; domains keep their id when it is passed back
+   */
+  async updateDomains(
+    projectName: string,
+    serviceName: string,
+    domains: Array<{ host: string; id?: string; https?: boolean; port?: number }>
+  ): Promise<unknown> {
+    // Validate inputs
+    validateProjectServiceName(projectName, 'project');
+    validateProjectServiceName(serviceName, 'service');
+    domains.forEach(domain => validateDomain(domain.host));
+
+    return this.mutate('services.app.updateDomains', { projectName, serviceName, domains });
+  }
+
   /**
    * List all domains for a service - FIXED to use service inspection
    */
@@ -2107,7 +2710,7 @@ export class EasyPanelClient {
       const project = await this.query('projects.inspectProject', { projectName });
 
       // Find the specific service in the project
-      const serviceInfo = (project as any)?.services?.find((s: any) => s.name === serviceName);
+      const serviceInfo = project.services.find(s => s.name === serviceName);
 
       return serviceInfo?.domains || [];
     } catch (error) {
@@ -2248,22 +2851,22 @@ export class EasyPanelClient {
       });
 
       // Combine information and detect plan status
-      const user = (sessionResponse as any)?.user || sessionResponse;
-      const projectCount = (projectsResponse as any)?.projects?.length || 0;
+      const user = sessionResponse.user || sessionResponse;
+      const projectCount = projectsResponse.projects.length;
 
       return {
         ...user,
         // Enhanced plan information
-        email: (user as any)?.email || 'unknown',
-        isSubscribed: (user as any)?.isSubscribed || false,
-        subscription: (user as any)?.subscription || null,
+        email: user.email || 'unknown',
+        isSubscribed: user.isSubscribed || false,
+        subscription: user.subscription || null,
         projectCount,
         isAtProjectLimit: projectCount >= 3, // Free plan typically has 3 project limit
-        planType: (user as any)?.isSubscribed ? 'premium' : projectCount >= 3 ? 'free-at-limit' : 'free',
+        planType: user.isSubscribed ? 'premium' : projectCount >= 3 ? 'free-at-limit' : 'free',
         // Add upgrade suggestion indicators
-        needsUpgrade: projectCount >= 3 && !(user as any)?.isSubscribed,
-        projects: (projectsResponse as any)?.projects || []
-      };
+        needsUpgrade: projectCount >= 3 && !user.isSubscribed,
+        projects: projectsResponse.projects
+      } as UserInfo;
     } catch (error) {
       // Fallback with minimal info for API compatibility
       return {
@@ -2332,7 +2935,7 @@ export class EasyPanelClient {
 
     // Invalidate any cached license data after activation
     this.clearCache('license.getPayload');
-    this.clearCache('auth.getUser');
+    this.clearCache('auth.getSession');
 
     return this.mutate('license.activate', request);
   }
@@ -2347,11 +2950,9 @@ export class EasyPanelClient {
     imagesRemoved: number;
     warnings: string[];
   }> {
-    await this.ensureAuthenticated();
-
     try {
       // Use actual EasyPanel settings endpoint
-      return await this.query('settings.pruneDockerImages');
+      return await this.queryAction('settings.pruneDockerImages', { force });
     } catch (error) {
       const upgradeSuggestion = this.getUpgradeSuggestion('docker_operations');
 
@@ -2371,11 +2972,9 @@ export class EasyPanelClient {
     cacheId: string;
     warnings: string[];
   }> {
-    await this.ensureAuthenticated();
-
     try {
       // Use actual EasyPanel settings endpoint
-      return await this.query('settings.pruneDockerBuilder');
+      return await this.queryAction('settings.pruneDockerBuilder', { all });
     } catch (error) {
       const upgradeSuggestion = this.getUpgradeSuggestion('docker_operations');
 
@@ -2538,7 +3137,7 @@ export class EasyPanelClient {
           const dockerStats = await this.query('monitor.getServiceStats', {
             projectName: 'system',
             serviceName: containerName,
-          }) as any;
+          });
 
           return {
             status: dockerStats.enabled ? 'running' : 'stopped',
@@ -2599,7 +3198,7 @@ export class EasyPanelClient {
         until: options?.until,
       });
 
-      return (result as any).logs || [];
+      return result.logs;
     } catch (error) {
       // Fallback to Docker container logs if it's a containerized service
       try {
@@ -2692,7 +3291,7 @@ export class EasyPanelClient {
         includePrivate,
         includeIPv6,
         publicOnly,
-      }).catch(() => null) as any;
+      }).catch(() => null);
 
       if (systemInfo?.addresses) {
         return systemInfo.addresses;
@@ -2719,7 +3318,7 @@ export class EasyPanelClient {
         const publicData = await publicIPResponse.json() as { ip: string };
         publicIP = publicData?.ip;
       } catch (error) {
-        console.error('[EasyPanel] Failed to fetch public IP:', error);
+        logger.warn('Failed to fetch public IP', { error });
       }
 
       // Process network interfaces
@@ -2871,7 +3470,7 @@ export class EasyPanelClient {
         : 'https';
 
       let primaryDomain = domainInfo.primaryDomain;
-      const port = process.env.EASYPANEL_PORT || '3000';
+      const port = this.port;
 
       // Add port if non-standard and requested
       if (includeDefaultPort || (port !== '80' && port !== '443' && port !== '3000')) {
@@ -3703,14 +4302,210 @@ export class EasyPanelClient {
   }
 }
 
-// Singleton instance
-let clientInstance: EasyPanelClient | null = null;
+// ==================== DRY RUN ====================
+
+/**
+ * A mutation that dry-run mode recorded instead of sending
+ */
+export interface PlannedMutation {
+  procedure: string;
+  input: unknown;
+  invalidates: string[];
+}
+
+// Mutations planned by the dry run in progress, if any
+const dryRunStorage = new AsyncLocalStorage<PlannedMutation[]>();
+
+/**
+ * Whether the server was started with --dry-run (or EASYPANEL_DRY_RUN=true)
+ */
+export function isDryRunEnabled(): boolean {
+  return process.env.EASYPANEL_DRY_RUN === 'true';
+}
+
+/**
+ * Whether mutations made now are only recorded, so side effects outside EasyPanel should be skipped too
+ */
+export function isDryRunActive(): boolean {
+  return dryRunStorage.getStore() !== undefined || isDryRunEnabled();
+}
+
+/**
+ * Run a function with every client mutation recorded instead of sent
+ */
+export async function withDryRun<T>(fn: () => Promise<T>): Promise<{ result: T; mutations: PlannedMutation[] }> {
+  const mutations: PlannedMutation[] = [];
+  const result = await dryRunStorage.run(mutations, fn);
+  return { result, mutations };
+}
+
+// ==================== TIMEOUTS ====================
+
+export type TimeoutClass = keyof TimeoutConfig;
+
+/**
+ * The timeout a request gets and where it came from
+ */
+export interface RequestTimeout {
+  ms: number;
+  // Timeout class, or 'timeoutMs' when the tool call set its own
+  source: TimeoutClass | 'timeoutMs';
+}
+
+const TIMEOUT_CLASSES: TimeoutClass[] = ['deploy', 'create', 'default'];
+
+const DEFAULT_TIMEOUTS: TimeoutConfig = {
+  deploy: 5 * 60 * 1000, // 5 minutes
+  create: 2 * 60 * 1000, // 2 minutes
+  default: 30 * 1000,    // 30 seconds
+};
+
+// Procedures that need more than the default timeout; "timeouts.procedures" in the config file can move any procedure
+const PROCEDURE_TIMEOUT_CLASSES: Partial<Record<ProcedureName, TimeoutClass>> = {
+  'services.app.deployService': 'deploy',
+  'projects.createProject': 'create',
+  'services.app.createService': 'create',
+  'services.redis.createService': 'create',
+  'services.mysql.createService': 'create',
+  'services.postgres.createService': 'create',
+  'services.mongo.createService': 'create',
+  'services.mariadb.createService': 'create',
+};
+
+// Timeout set by the tool call in progress, if any
+const timeoutOverrideStorage = new AsyncLocalStorage<number>();
+
+function timeoutEnvVar(timeoutClass: TimeoutClass): string {
+  return `EASYPANEL_TIMEOUT_${timeoutClass.toUpperCase()}`;
+}
+
+/**
+ * Milliseconds per timeout class: EASYPANEL_TIMEOUT_<CLASS>, then config file "timeouts", then the defaults
+ */
+export function getTimeoutConfig(): TimeoutConfig {
+  const config = getConfig().timeouts || {};
+  const timeouts = { ...DEFAULT_TIMEOUTS };
+
+  for (const timeoutClass of TIMEOUT_CLASSES) {
+    const configured = process.env[timeoutEnvVar(timeoutClass)] || config[timeoutClass];
+    if (configured === undefined) {
+      continue;
+    }
+
+    const ms = Number(configured);
+    if (Number.isFinite(ms) && ms > 0) {
+      timeouts[timeoutClass] = ms;
+    } else {
+      logger.warn(`Ignoring ${timeoutClass} timeout '${configured}': expected a positive number of milliseconds`);
+    }
+  }
+
+  return timeouts;
+}
+
+/**
+ * Timeout class a procedure belongs to
+ */
+export function getTimeoutClass(procedure: string): TimeoutClass {
+  const configured = getConfig().timeouts?.procedures?.[procedure];
+  if (configured && TIMEOUT_CLASSES.includes(configured)) {
+    return configured;
+  }
+
+  return PROCEDURE_TIMEOUT_CLASSES[procedure as ProcedureName] ?? 'default';
+}
+
+/**
+ * Run a function with every EasyPanel request it makes limited to timeoutMs
+ */
+export function withRequestTimeout<T>(timeoutMs: number | undefined, fn: () => Promise<T>): Promise<T> {
+  return timeoutMs === undefined ? fn() : timeoutOverrideStorage.run(timeoutMs, fn);
+}
+
+// ==================== INSTANCES ====================
+
+// One client (and therefore one token, cache and plan detector) per instance
+const clientInstances = new Map<string, EasyPanelClient>();
+
+metrics.gauge('easypanel_mcp_cache_entries', 'Cached responses by instance', () =>
+  Array.from(clientInstances, ([instance, client]) => ({
+    labels: { instance },
+    value: client.getCacheStats().entries,
+  }))
+);
+
+/**
+ * Instance described by the EASYPANEL_* environment variables
+ */
+function getEnvironmentInstance(): EasyPanelInstance {
+  return {
+    name: DEFAULT_INSTANCE_NAME,
+    url: process.env.EASYPANEL_URL || '',
+    email: process.env.EASYPANEL_EMAIL,
+    password: process.env.EASYPANEL_PASSWORD,
+    token: process.env.EASYPANEL_TOKEN,
+    port: process.env.EASYPANEL_PORT,
+  };
+}
+
+/**
+ * All configured instances: the config file "instances" section plus the environment instance
+ */
+export function getInstances(): EasyPanelInstance[] {
+  const configured = Object.entries(getConfig().instances || {}).map(
+    ([name, instance]) => ({ ...instance, name })
+  );
+
+  if (process.env.EASYPANEL_URL && !configured.some(instance => instance.name === DEFAULT_INSTANCE_NAME)) {
+    configured.unshift(getEnvironmentInstance());
+  }
+
+  return configured;
+}
+
+export function getDefaultInstanceName(): string {
+  const explicit = getConfig().defaultInstance || process.env.EASYPANEL_DEFAULT_INSTANCE;
+  if (explicit) {
+    return explicit;
+  }
+
+  const instances = getInstances();
+  if (instances.length === 0 || instances.some(instance => instance.name === DEFAULT_INSTANCE_NAME)) {
+    return DEFAULT_INSTANCE_NAME;
+  }
+  return instances[0].name;
+}
+
+/**
+ * Whether a client has already been created for the instance
+ */
+export function hasClient(instance: string): boolean {
+  return clientInstances.has(instance);
+}
 
-export function getClient(): EasyPanelClient {
-  if (!clientInstance) {
-    clientInstance = new EasyPanelClient();
+export function getClient(instance?: string): EasyPanelClient {
+  const name = instance || getDefaultInstanceName();
+
+  const existing = clientInstances.get(name);
+  if (existing) {
+    return existing;
+  }
+
+  const instances = getInstances();
+  const config = instances.find(candidate => candidate.name === name);
+
+  if (!config && (instance || instances.length > 0)) {
+    const available = instances.map(candidate => candidate.name);
+    throw new ValidationError(
+      `Unknown EasyPanel instance '${name}'. Available instances: ${available.length > 0 ? available.join(', ') : 'none'}`,
+      'instance',
+      name
+    );
   }
-  return clientInstance;
+
+  const client = new EasyPanelClient(config);
+  clientInstances.set(name, client);
+  return client;
 }
 
 // Export error-related utilities for consumers
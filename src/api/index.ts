@@ -16,9 +16,36 @@ export {
   createErrorFormatter,
 
   // Client factory
-  getClient
+  getClient,
+
+  // Instances
+  DEFAULT_INSTANCE_NAME,
+  getInstances,
+  getDefaultInstanceName,
+  hasClient,
+
+  // Dry run
+  isDryRunActive,
+  isDryRunEnabled,
+  withDryRun,
+
+  // Timeouts
+  getTimeoutConfig,
+  getTimeoutClass,
+  withRequestTimeout
 } from './client.js';
 
+export type { EasyPanelInstance, PlannedMutation, RequestTimeout, TimeoutClass } from './client.js';
+
+// Procedure catalog
+export type {
+  ProcedureName,
+  QueryProcedure,
+  MutationProcedure,
+  ProcedureInput,
+  ProcedureOutput,
+} from './procedures.js';
+
 // Re-export types for convenience
 export type {
   AuthResponse,
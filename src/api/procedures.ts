@@ -0,0 +1,530 @@
+/**
+ * tRPC Procedure Catalog
+ * Input types and response schemas for every EasyPanel procedure the client calls
+ */
+
+import { z } from 'zod';
+import { DomainConfiguration, LicenseActivationRequest } from '../types/easypanel.js';
+
+// ==================== RESPONSE SCHEMAS ====================
+// Schemas pin the fields the server reads and pass everything else through untouched
+
+const projectSchema = z.object({
+  name: z.string(),
+  createdAt: z.string().optional(),
+}).passthrough();
+
+const domainSchema = z.object({
+  host: z.string(),
+  id: z.string().optional(),
+  https: z.boolean().optional(),
+  port: z.number().optional(),
+}).passthrough();
+
+// Deploy source of an app service; which fields are set depends on the type
+const serviceSourceSchema = z.object({
+  type: z.string(),
+  image: z.string().optional(),
+  username: z.string().optional(),
+  password: z.string().optional(),
+  repo: z.string().optional(),
+  ref: z.string().optional(),
+  path: z.string().optional(),
+  dockerfile: z.string().optional(),
+  // Older EasyPanel versions
+  dockerfilePath: z.string().optional(),
+}).passthrough();
+
+// 0 or null means no limit
+const serviceResourcesSchema = z.object({
+  memoryReservation: z.number().nullish(),
+  memoryLimit: z.number().nullish(),
+  cpuReservation: z.number().nullish(),
+  cpuLimit: z.number().nullish(),
+}).passthrough();
+
+// Depending on the EasyPanel version, database credentials are top-level fields or grouped under "credentials"
+const databaseCredentialsSchema = z.object({
+  databaseName: z.string().optional(),
+  user: z.string().optional(),
+  password: z.string().optional(),
+  rootPassword: z.string().optional(),
+}).passthrough();
+
+const serviceSchema = z.object({
+  name: z.string(),
+  type: z.string(),
+  projectName: z.string().optional(),
+  enabled: z.boolean().optional(),
+  status: z.string().optional(),
+  env: z.string().optional(),
+  source: serviceSourceSchema.optional(),
+  resources: serviceResourcesSchema.optional(),
+  image: z.string().optional(),
+  ...databaseCredentialsSchema.shape,
+  credentials: databaseCredentialsSchema.optional(),
+  domains: z.array(domainSchema).optional(),
+  containerName: z.string().optional(),
+}).passthrough();
+
+const serviceSummarySchema = z.object({
+  projectName: z.string(),
+  name: z.string(),
+  type: z.string().optional(),
+  enabled: z.boolean().optional(),
+}).passthrough();
+
+const buildStatusSchema = z.object({
+  id: z.string(),
+  status: z.enum(['pending', 'running', 'success', 'failed', 'cancelled']),
+  startTime: z.string().optional(),
+  endTime: z.string().optional(),
+  logs: z.array(z.string()).optional(),
+  error: z.string().optional(),
+}).passthrough();
+
+const certificateSchema = z.object({
+  id: z.string(),
+  domain: z.string(),
+  issuer: z.string(),
+  notBefore: z.string(),
+  notAfter: z.string(),
+  status: z.enum(['active', 'expired', 'pending', 'failed']),
+  autoRenew: z.boolean(),
+  type: z.enum(['letsencrypt', 'custom']),
+  createdAt: z.string().optional(),
+}).passthrough();
+
+const containerLogSchema = z.object({
+  timestamp: z.string(),
+  level: z.enum(['debug', 'info', 'warn', 'error', 'fatal']),
+  message: z.string(),
+  container: z.string().optional(),
+  service: z.string().optional(),
+  stream: z.enum(['stdout', 'stderr']).optional(),
+}).passthrough();
+
+const licensePayloadSchema = z.object({
+  type: z.string(),
+  status: z.enum(['active', 'inactive', 'expired', 'trial', 'premium']),
+  expiresAt: z.string().optional(),
+  features: z.array(z.string()),
+  limits: z.object({
+    projects: z.number().optional(),
+    services: z.number().optional(),
+    domains: z.number().optional(),
+    bandwidth: z.string().optional(),
+    storage: z.string().optional(),
+  }).passthrough().optional(),
+  metadata: z.record(z.unknown()).optional(),
+}).passthrough();
+
+const cpuUsageSchema = z.object({
+  usage: z.number().optional(),
+  cores: z.number().optional(),
+  load_average: z.array(z.number()).optional(),
+}).passthrough();
+
+const capacitySchema = z.object({
+  total: z.number().optional(),
+  used: z.number().optional(),
+  free: z.number().optional(),
+  usage: z.number().optional(),
+}).passthrough();
+
+const networkInterfacesSchema = z.object({
+  interfaces: z.array(z.object({
+    name: z.string().optional(),
+    rx_bytes: z.number().optional(),
+    tx_bytes: z.number().optional(),
+    rx_speed: z.number().optional(),
+    tx_speed: z.number().optional(),
+  }).passthrough()).optional(),
+}).passthrough();
+
+const systemStatsSchema = z.object({
+  cpu: cpuUsageSchema.optional(),
+  memory: capacitySchema.extend({
+    buffers: z.number().optional(),
+    cached: z.number().optional(),
+  }).optional(),
+  disk: capacitySchema.extend({
+    read_speed: z.number().optional(),
+    write_speed: z.number().optional(),
+  }).optional(),
+  network: networkInterfacesSchema.optional(),
+  uptime: z.number().optional(),
+  top_processes: z.array(z.object({
+    pid: z.number(),
+    name: z.string(),
+    cpu: z.number(),
+    memory: z.number(),
+    memory_mb: z.number().optional(),
+  }).passthrough()).optional(),
+}).passthrough();
+
+const advancedStatsSchema = z.object({
+  total_memory: z.number().optional(),
+  used_memory: z.number().optional(),
+  total_disk: z.number().optional(),
+  used_disk: z.number().optional(),
+  uptime: z.number().optional(),
+  alerts: z.array(z.unknown()).optional(),
+  performance_metrics: z.object({
+    cpu_history: z.array(z.number()).optional(),
+    memory_history: z.array(z.number()).optional(),
+    disk_io_history: z.array(z.number()).optional(),
+    network_history: z.array(z.number()).optional(),
+    response_time_history: z.array(z.number()).optional(),
+  }).passthrough().optional(),
+  historical_series: z.array(z.unknown()).optional(),
+}).passthrough();
+
+const dockerTaskStatsSchema = z.object({
+  containers: z.array(z.object({
+    id: z.string(),
+    name: z.string(),
+    project: z.string().optional(),
+    service: z.string().optional(),
+    state: z.string().optional(),
+    status: z.string().optional(),
+    health: z.string().optional(),
+    uptime: z.string().optional(),
+    cpu: z.number().optional(),
+    memory_used: z.number().optional(),
+    memory_limit: z.number().optional(),
+    network: z.object({
+      rx: z.number().optional(),
+      tx: z.number().optional(),
+    }).passthrough().optional(),
+    restarts: z.number().optional(),
+    created: z.string().optional(),
+    image: z.string().optional(),
+  }).passthrough()).optional(),
+}).passthrough();
+
+const monitorTableSchema = z.object({
+  uptime: z.number().optional(),
+  cpu_usage: z.number().optional(),
+  memory_usage: z.number().optional(),
+  disk_usage: z.number().optional(),
+  load_average: z.array(z.number()).optional(),
+  total_projects: z.number().optional(),
+  running_services: z.number().optional(),
+  total_containers: z.number().optional(),
+  network_io: z.object({ rx: z.number(), tx: z.number() }).passthrough().optional(),
+  health_status: z.string().optional(),
+  alerts: z.array(z.unknown()).optional(),
+  last_health_check: z.string().optional(),
+  trends: z.record(z.string()).optional(),
+  services: z.array(z.object({
+    name: z.string(),
+    project: z.string().optional(),
+    status: z.string().optional(),
+    cpu: z.number().optional(),
+    memory: z.number().optional(),
+    uptime: z.string().optional(),
+    restarts: z.number().optional(),
+    health: z.string().optional(),
+    image: z.string().optional(),
+  }).passthrough()).optional(),
+  cpu: cpuUsageSchema.optional(),
+  memory: capacitySchema.optional(),
+  disk: capacitySchema.optional(),
+  network: networkInterfacesSchema.optional(),
+  performance: z.object({
+    response_times: z.array(z.number()).optional(),
+    throughput: z.unknown().optional(),
+    error_rate: z.number().optional(),
+    concurrent_connections: z.number().optional(),
+    request_rate: z.number().optional(),
+    trends: z.record(z.string()).optional(),
+  }).passthrough().optional(),
+}).passthrough();
+
+const serviceStatsSchema = z.object({
+  enabled: z.boolean().optional(),
+  cpu: z.object({ percent: z.number() }).passthrough().optional(),
+  memory: z.object({ usage: z.number(), percent: z.number() }).passthrough().optional(),
+  network: z.object({ in: z.number(), out: z.number() }).passthrough().optional(),
+}).passthrough();
+
+const pruneImagesSchema = z.object({
+  freedSpace: z.string(),
+  imagesRemoved: z.number(),
+  warnings: z.array(z.string()),
+}).passthrough();
+
+const pruneBuilderSchema = z.object({
+  freedSpace: z.string(),
+  cacheId: z.string(),
+  warnings: z.array(z.string()),
+}).passthrough();
+
+const systemServiceStatusSchema = z.object({
+  status: z.enum(['running', 'stopped', 'error', 'unknown']),
+  uptime: z.number().optional(),
+  memory: z.object({ usage: z.number(), percent: z.number() }).optional(),
+  cpu: z.object({ percent: z.number() }).optional(),
+  lastRestart: z.string().optional(),
+  health: z.enum(['healthy', 'unhealthy', 'unknown']),
+}).passthrough();
+
+const panelDomainSchema = z.object({
+  primaryDomain: z.string(),
+  domains: z.array(z.object({
+    domain: z.string(),
+    type: z.enum(['panel', 'service', 'custom']),
+    ssl: z.boolean(),
+    sslStatus: z.enum(['valid', 'expired', 'invalid', 'none']).optional(),
+    expiresAt: z.string().optional(),
+  }).passthrough()),
+}).passthrough();
+
+const sessionUserSchema = z.object({
+  email: z.string().optional(),
+  isSubscribed: z.boolean().optional(),
+  subscription: z.unknown().optional(),
+}).passthrough();
+
+// Responses whose content the server never reads (mostly null)
+const ignoredResponse = z.unknown();
+
+const responseSchemas = {
+  // Auth
+  'auth.login': z.object({ token: z.string().min(1) }).passthrough(),
+  // Some EasyPanel versions return the user itself rather than { user }
+  'auth.getSession': sessionUserSchema.extend({
+    user: sessionUserSchema.optional(),
+  }),
+
+  // Projects
+  'projects.listProjectsAndServices': z.object({
+    projects: z.array(projectSchema),
+    services: z.array(serviceSummarySchema),
+  }).passthrough(),
+  'projects.inspectProject': z.object({
+    project: projectSchema,
+    services: z.array(serviceSchema),
+  }).passthrough(),
+  'projects.createProject': ignoredResponse,
+  'projects.destroyProject': ignoredResponse,
+
+  // App services
+  'services.app.createService': ignoredResponse,
+  'services.app.destroyService': ignoredResponse,
+  'services.app.updateSourceImage': ignoredResponse,
+  'services.app.updateSourceGit': ignoredResponse,
+  'services.app.updateSourceDockerfile': ignoredResponse,
+  'services.app.updateEnv': ignoredResponse,
+  'services.app.updateResources': ignoredResponse,
+  'services.app.startService': ignoredResponse,
+  'services.app.stopService': ignoredResponse,
+  'services.app.restartService': ignoredResponse,
+  'services.app.deployService': z.object({
+    buildId: z.string(),
+    message: z.string().optional(),
+    status: buildStatusSchema.shape.status,
+  }).passthrough(),
+  'services.app.getBuildStatus': buildStatusSchema,
+  'services.app.updateDomains': ignoredResponse,
+  'services.app.validateDomain': z.object({
+    domain: z.string(),
+    isValid: z.boolean(),
+    errors: z.array(z.string()),
+    warnings: z.array(z.string()),
+    dnsRecords: z.array(z.object({
+      type: z.enum(['A', 'AAAA', 'CNAME', 'MX', 'TXT', 'SRV']),
+      name: z.string(),
+      value: z.string(),
+      ttl: z.number().optional(),
+      priority: z.number().optional(),
+    }).passthrough()).optional(),
+  }).passthrough(),
+  'services.app.getSSLCertificate': certificateSchema,
+  'services.app.requestSSLCertificate': certificateSchema,
+  'services.app.renewSSLCertificate': certificateSchema,
+  'services.searchLogs': z.object({
+    service: z.string(),
+    totalMatches: z.number(),
+    logs: z.array(containerLogSchema),
+    query: z.string(),
+  }).passthrough(),
+
+  // Databases
+  'services.redis.createService': ignoredResponse,
+  'services.redis.inspectService': serviceSchema,
+  'services.redis.updatePassword': ignoredResponse,
+  'services.redis.destroyService': ignoredResponse,
+  'services.mysql.createService': ignoredResponse,
+  'services.mysql.destroyService': ignoredResponse,
+  'services.postgres.createService': ignoredResponse,
+  'services.postgres.destroyService': ignoredResponse,
+  'services.mongo.createService': ignoredResponse,
+  'services.mongo.destroyService': ignoredResponse,
+  'services.mariadb.createService': ignoredResponse,
+  'services.mariadb.destroyService': ignoredResponse,
+
+  // Monitoring
+  'monitor.getServiceStats': serviceStatsSchema,
+  'monitor.getAdvancedStats': advancedStatsSchema,
+  'monitor.getSystemStats': systemStatsSchema,
+  'monitor.getDockerTaskStats': dockerTaskStatsSchema,
+  'monitor.getMonitorTableData': monitorTableSchema,
+
+  // License
+  'license.getPayload': licensePayloadSchema,
+  'license.activate': z.object({
+    success: z.boolean(),
+    license: licensePayloadSchema.optional(),
+    message: z.string().optional(),
+    error: z.string().optional(),
+  }).passthrough(),
+
+  // Docker maintenance
+  'settings.pruneDockerImages': pruneImagesSchema,
+  'settings.pruneDockerBuilder': pruneBuilderSchema,
+
+  // System
+  'system.restartService': ignoredResponse,
+  'system.getServiceStatus': systemServiceStatusSchema,
+  'system.getServiceLogs': z.object({ logs: z.array(z.string()) }).passthrough(),
+  'system.getServerIPs': z.object({
+    addresses: z.array(z.object({
+      address: z.string(),
+      family: z.enum(['IPv4', 'IPv6']),
+      type: z.enum(['public', 'private']),
+      interface: z.string().optional(),
+      isPrimary: z.boolean(),
+    }).passthrough()),
+  }).passthrough(),
+  'system.getPanelDomain': panelDomainSchema,
+  'system.getSystemInfo': z.object({
+    hostname: z.string(),
+    platform: z.string(),
+    arch: z.string(),
+  }).passthrough(),
+} satisfies Record<ProcedureName, z.ZodTypeAny>;
+
+// ==================== INPUT TYPES ====================
+
+interface ServiceRef {
+  projectName: string;
+  serviceName: string;
+}
+
+/**
+ * Inputs of procedures sent as GET queries
+ */
+export interface QueryInputs {
+  'auth.getSession': undefined;
+  'projects.listProjectsAndServices': undefined;
+  'projects.inspectProject': { projectName: string };
+  'services.app.getBuildStatus': ServiceRef & { buildId?: string };
+  'services.app.validateDomain': ServiceRef & { domainConfig: DomainConfiguration };
+  'services.app.getSSLCertificate': ServiceRef & { domain: string };
+  'services.searchLogs': ServiceRef & { query: string } & Record<string, unknown>;
+  'services.redis.inspectService': ServiceRef;
+  'monitor.getServiceStats': ServiceRef;
+  'monitor.getAdvancedStats': undefined;
+  'monitor.getSystemStats': undefined;
+  'monitor.getDockerTaskStats': undefined;
+  'monitor.getMonitorTableData': undefined;
+  'license.getPayload': { type: string };
+  // Prunes are GETs in EasyPanel even though they change state
+  'settings.pruneDockerImages': undefined;
+  'settings.pruneDockerBuilder': undefined;
+  'system.getServiceStatus': { serviceName: string };
+  'system.getServiceLogs': { serviceName: string; lines: number; follow: boolean; since?: string; until?: string };
+  'system.getServerIPs': { includePrivate: boolean; includeIPv6: boolean; publicOnly: boolean };
+  'system.getPanelDomain': undefined;
+  'system.getSystemInfo': { includeDocker: boolean; includeNetwork: boolean; includeServices: boolean };
+}
+
+/**
+ * Inputs of procedures sent as POST mutations
+ */
+export interface MutationInputs {
+  'auth.login': { email: string; password: string };
+  'projects.createProject': { name: string };
+  'projects.destroyProject': { projectName: string };
+  'services.app.createService': ServiceRef;
+  'services.app.destroyService': ServiceRef;
+  'services.app.updateSourceImage': ServiceRef & { image: string; username?: string; password?: string };
+  'services.app.updateSourceGit': ServiceRef & { repo: string; ref: string; path: string };
+  'services.app.updateSourceDockerfile': ServiceRef & { repo: string; ref: string; path: string; dockerfilePath: string };
+  'services.app.updateEnv': ServiceRef & { env: string };
+  'services.app.updateResources': ServiceRef & {
+    memoryReservation?: number;
+    memoryLimit?: number;
+    cpuReservation?: number;
+    cpuLimit?: number;
+  };
+  'services.app.startService': ServiceRef;
+  'services.app.stopService': ServiceRef;
+  'services.app.restartService': ServiceRef;
+  'services.app.deployService': ServiceRef;
+  'services.app.updateDomains': ServiceRef & { domains: Array<{ host: string } & Record<string, unknown>> };
+  'services.app.requestSSLCertificate': ServiceRef & { domain: string; email?: string };
+  'services.app.renewSSLCertificate': ServiceRef & { domainId: string };
+  'services.redis.createService': ServiceRef & { password: string; image: string };
+  'services.redis.updatePassword': ServiceRef & { password: string };
+  'services.redis.destroyService': ServiceRef;
+  'services.mysql.createService': ServiceRef & {
+    databaseName: string;
+    user: string;
+    password: string;
+    rootPassword: string;
+    image: string;
+  };
+  'services.mysql.destroyService': ServiceRef;
+  'services.postgres.createService': ServiceRef & { databaseName: string; user: string; password: string; image: string };
+  'services.postgres.destroyService': ServiceRef;
+  'services.mongo.createService': ServiceRef & { databaseName: string; user: string; password: string; image: string };
+  'services.mongo.destroyService': ServiceRef;
+  'services.mariadb.createService': ServiceRef & {
+    databaseName: string;
+    user: string;
+    password: string;
+    rootPassword: string;
+    image: string;
+  };
+  'services.mariadb.destroyService': ServiceRef;
+  'license.activate': LicenseActivationRequest;
+  'system.restartService': { serviceName: string; force: boolean };
+}
+
+export type QueryProcedure = keyof QueryInputs;
+export type MutationProcedure = keyof MutationInputs;
+export type ProcedureName = QueryProcedure | MutationProcedure;
+
+export type ProcedureInput<P extends ProcedureName> = (QueryInputs & MutationInputs)[P];
+export type ProcedureOutput<P extends ProcedureName> = z.output<(typeof responseSchemas)[P]>;
+
+/**
+ * Validate a response against the catalog. Returns the parsed value, or the
+ * zod issues when EasyPanel answered with a shape the server does not expect.
+ */
+export function parseProcedureResponse<P extends ProcedureName>(
+  procedure: P,
+  data: unknown
+): { success: true; data: ProcedureOutput<P> } | { success: false; error: z.ZodError } {
+  const schema: z.ZodTypeAny = responseSchemas[procedure];
+  const result = schema.safeParse(data);
+  return result.success
+    ? { success: true, data: result.data as ProcedureOutput<P> }
+    : { success: false, error: result.error };
+}
+
+/**
+ * One line per mismatched field, e.g. "services.0.name: Expected string, received number"
+ */
+export function describeSchemaDrift(error: z.ZodError, maxIssues: number = 5): string[] {
+  const lines = error.issues.slice(0, maxIssues).map(issue =>
+    `${issue.path.length > 0 ? issue.path.join('.') : '(response)'}: ${issue.message}`
+  );
+  if (error.issues.length > maxIssues) {
+    lines.push(`...and ${error.issues.length - maxIssues} more`);
+  }
+  return lines;
+}
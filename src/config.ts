@@ -0,0 +1,173 @@
+/**
+ * Server Configuration
+ * Loads the optional JSON config file shared by every transport
+ */
+
+import { readFileSync } from 'node:fs';
+import { resolve } from 'node:path';
+
+/**
+ * Connection settings for one named EasyPanel instance
+ */
+export interface InstanceConfig {
+  url: string;
+  email?: string;
+  password?: string;
+  token?: string;
+  port?: string;
+  description?: string;
+}
+
+/**
+ * Which tools are listed and callable; patterns support * and ? wildcards
+ */
+export interface ToolPolicyConfig {
+  readOnly?: boolean;
+  allow?: string[];
+  deny?: string[];
+  // Whether a tool call may pass reveal: true to get unmasked secrets (default: true)
+  allowReveal?: boolean;
+}
+
+/**
+ * JSONL audit log of mutations and system actions
+ */
+export interface AuditConfig {
+  enabled?: boolean;
+  path?: string;
+}
+
+/**
+ * On-disk cache that lets restarts reuse recent EasyPanel responses
+ */
+export interface CacheConfig {
+  persistent?: boolean;
+  directory?: string;
+}
+
+/**
+ * Request timeouts in milliseconds per timeout class, and procedures moved between classes
+ */
+export interface TimeoutsConfig {
+  deploy?: number;
+  create?: number;
+  default?: number;
+  procedures?: Record<string, 'deploy' | 'create' | 'default'>;
+}
+
+/**
+ * Log level (debug, info, warn, error) and output format (pretty or json)
+ */
+export interface LoggingConfig {
+  level?: string;
+  format?: string;
+}
+
+/**
+ * Masking of passwords, tokens and secret env values in tool output
+ */
+export interface RedactionConfig {
+  enabled?: boolean;
+  // Extra field and env variable name fragments to treat as secret, e.g. "dsn"
+  keys?: string[];
+}
+
+/**
+ * Prometheus exporter mode (--transport exporter): poll interval in seconds and instances to poll
+ */
+export interface ExporterConfig {
+  interval?: number;
+  instances?: string[];
+}
+
+/**
+ * JSON file recording which app env variables link_database filled with a database URL
+ */
+export interface DatabaseLinksConfig {
+  path?: string;
+}
+
+/**
+ * Span output for tool calls and the requests they make: a file path or "stdout"
+ */
+export interface TracingConfig {
+  enabled?: boolean;
+  output?: string;
+}
+
+export interface ServerConfig {
+  defaultInstance?: string;
+  instances?: Record<string, InstanceConfig>;
+  policy?: ToolPolicyConfig;
+  audit?: AuditConfig;
+  cache?: CacheConfig;
+  timeouts?: TimeoutsConfig;
+  logging?: LoggingConfig;
+  redaction?: RedactionConfig;
+  exporter?: ExporterConfig;
+  tracing?: TracingConfig;
+  links?: DatabaseLinksConfig;
+}
+
+let currentConfig: ServerConfig = {};
+let currentConfigPath: string | undefined;
+
+/**
+ * Replace ${VAR} references with environment values so secrets can stay out of the file
+ */
+function expandEnv<T>(value: T): T {
+  if (typeof value === 'string') {
+    return value.replace(/\$\{([A-Z0-9_]+)\}/gi, (_, name: string) => process.env[name] ?? '') as T;
+  }
+  if (Array.isArray(value)) {
+    return value.map(item => expandEnv(item)) as T;
+  }
+  if (value && typeof value === 'object') {
+    return Object.fromEntries(
+      Object.entries(value).map(([key, item]) => [key, expandEnv(item)])
+    ) as T;
+  }
+  return value;
+}
+
+/**
+ * Load the config file from the given path or EASYPANEL_MCP_CONFIG
+ */
+export function loadConfig(path: string | undefined = process.env.EASYPANEL_MCP_CONFIG): ServerConfig {
+  if (!path) {
+    currentConfig = {};
+    currentConfigPath = undefined;
+    return currentConfig;
+  }
+
+  const fullPath = resolve(path);
+  let raw: string;
+  try {
+    raw = readFileSync(fullPath, 'utf8');
+  } catch (error) {
+    throw new Error(`Unable to read config file ${fullPath}: ${error instanceof Error ? error.message : String(error)}`);
+  }
+
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(raw);
+  } catch (error) {
+    throw new Error(`Invalid JSON in config file ${fullPath}: ${error instanceof Error ? error.message : String(error)}`);
+  }
+
+  if (!parsed || typeof parsed !== 'object' || Array.isArray(parsed)) {
+    throw new Error(`Config file ${fullPath} must contain a JSON object`);
+  }
+
+  currentConfig = expandEnv(parsed as ServerConfig);
+  currentConfigPath = fullPath;
+  return currentConfig;
+}
+
+export function getConfig(): ServerConfig {
+  return currentConfig;
+}
+
+export function getConfigPath(): string | undefined {
+  return currentConfigPath;
+}
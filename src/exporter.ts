@@ -0,0 +1,290 @@
+/**
+ * Stats Exporter
+ * Polls EasyPanel monitoring procedures and serves the results as Prometheus gauges,
+ * so an existing scraping stack can alert on EasyPanel hosts without a separate exporter.
+ */
+
+import express from 'express';
+import { getClient, getDefaultInstanceName, getInstances } from './api/client.js';
+import { getConfig } from './config.js';
+import { createLogger, withCorrelationId } from './utils/logger.js';
+import { metrics, MetricsRegistry, PROMETHEUS_CONTENT_TYPE, Sample } from './utils/metrics.js';
+
+const logger = createLogger('Exporter');
+
+export const DEFAULT_EXPORTER_INTERVAL_SECONDS = 30;
+
+// Gauge name -> help text; every gauge is labeled by instance, plus project/service where it applies
+const GAUGES = {
+  easypanel_cpu_usage_percent: 'Host CPU usage (getSystemStats)',
+  easypanel_cpu_cores: 'Host CPU cores (getSystemStats)',
+  easypanel_load_average: 'Host load average by period (getSystemStats)',
+  easypanel_memory_bytes: 'Host memory by state: total, used, free (getSystemStats)',
+  easypanel_disk_bytes: 'Host disk space by state: total, used, free (getSystemStats)',
+  easypanel_network_receive_bytes: 'Bytes received by network interface (getSystemStats)',
+  easypanel_network_transmit_bytes: 'Bytes sent by network interface (getSystemStats)',
+  easypanel_uptime_seconds: 'Host uptime (getSystemStats)',
+  easypanel_container_up: 'Whether the container is running (getDockerTaskStats)',
+  easypanel_container_cpu_percent: 'Container CPU usage (getDockerTaskStats)',
+  easypanel_container_memory_bytes: 'Container memory usage (getDockerTaskStats)',
+  easypanel_container_memory_limit_bytes: 'Container memory limit (getDockerTaskStats)',
+  easypanel_container_network_receive_bytes: 'Bytes received by the container (getDockerTaskStats)',
+  easypanel_container_network_transmit_bytes: 'Bytes sent by the container (getDockerTaskStats)',
+  easypanel_container_restarts: 'Container restart count (getDockerTaskStats)',
+  easypanel_projects: 'Projects on the host (getMonitorTableData)',
+  easypanel_running_services: 'Running services on the host (getMonitorTableData)',
+  easypanel_containers: 'Containers on the host (getMonitorTableData)',
+  easypanel_service_up: 'Whether the service is running (getMonitorTableData)',
+  easypanel_service_enabled: 'Whether the service is enabled (getServiceStats)',
+  easypanel_service_cpu_percent: 'Service CPU usage (getServiceStats)',
+  easypanel_service_memory_bytes: 'Service memory usage (getServiceStats)',
+  easypanel_service_memory_percent: 'Service memory usage as a share of its limit (getServiceStats)',
+  easypanel_service_network_receive_bytes: 'Bytes received by the service (getServiceStats)',
+  easypanel_service_network_transmit_bytes: 'Bytes sent by the service (getServiceStats)',
+  easypanel_exporter_poll_success: 'Whether the last poll of a source succeeded',
+  easypanel_exporter_poll_duration_seconds: 'How long the last poll of an instance took',
+  easypanel_exporter_last_poll_timestamp_seconds: 'When an instance was last polled',
+} as const;
+
+type GaugeName = keyof typeof GAUGES;
+
+const SOURCES = ['system', 'docker_tasks', 'monitor_table', 'services'] as const;
+type Source = typeof SOURCES[number];
+
+/**
+ * Samples gathered by one poll, grouped by gauge
+ */
+class Snapshot {
+  readonly samples = new Map<GaugeName, Sample[]>();
+
+  add(name: GaugeName, labels: Record<string, string>, value: number | undefined): void {
+    if (typeof value !== 'number' || !Number.isFinite(value)) {
+      return;
+    }
+    const samples = this.samples.get(name) ?? [];
+    samples.push({ labels, value });
+    this.samples.set(name, samples);
+  }
+
+  merge(other: Snapshot): void {
+    for (const [name, samples] of other.samples) {
+      this.samples.set(name, [...(this.samples.get(name) ?? []), ...samples]);
+    }
+  }
+}
+
+// Each poll reads fresh values instead of the responses cached for tool calls
+const FRESH = { useCache: false };
+
+function isRunning(status: string | undefined): number {
+  return status === 'running' ? 1 : 0;
+}
+
+export class StatsExporter {
+  private app = express();
+  private registry = new MetricsRegistry();
+  private snapshot = new Snapshot();
+  private timer?: NodeJS.Timeout;
+  private polling?: Promise<void>;
+
+  constructor(
+    private readonly port = 3001,
+    private readonly intervalSeconds = DEFAULT_EXPORTER_INTERVAL_SECONDS,
+    private readonly instances: string[] = StatsExporter.configuredInstances()
+  ) {
+    for (const [name, help] of Object.entries(GAUGES) as [GaugeName, string][]) {
+      this.registry.gauge(name, help, () => this.snapshot.samples.get(name) ?? []);
+    }
+
+    this.app.get('/health', (req, res) => {
+      res.json({
+        status: 'healthy',
+        timestamp: new Date().toISOString(),
+        instances: this.instances,
+        intervalSeconds: this.intervalSeconds,
+        uptime: process.uptime()
+      });
+    });
+
+    // EasyPanel gauges followed by the server's own metrics (API latencies, cache statistics)
+    this.app.get('/metrics', (req, res) => {
+      res.type(PROMETHEUS_CONTENT_TYPE).send(this.registry.render() + metrics.render());
+    });
+  }
+
+  /**
+   * Instances to poll: config "exporter.instances", else every configured instance
+   */
+  static configuredInstances(): string[] {
+    const configured = getConfig().exporter?.instances;
+    if (configured && configured.length > 0) {
+      return configured;
+    }
+    const instances = getInstances().map(instance => instance.name);
+    return instances.length > 0 ? instances : [getDefaultInstanceName()];
+  }
+
+  /**
+   * Poll every instance once; overlapping calls share the poll already running
+   */
+  poll(): Promise<void> {
+    if (!this.polling) {
+      this.polling = this.pollInstances().finally(() => {
+        this.polling = undefined;
+      });
+    }
+    return this.polling;
+  }
+
+  private async pollInstances(): Promise<void> {
+    const snapshots = await Promise.all(this.instances.map(instance =>
+      withCorrelationId(undefined, () => this.pollInstance(instance))
+    ));
+
+    const next = new Snapshot();
+    snapshots.forEach(snapshot => next.merge(snapshot));
+    this.snapshot = next;
+  }
+
+  private async pollInstance(instance: string): Promise<Snapshot> {
+    const startedAt = Date.now();
+    const snapshot = new Snapshot();
+
+    const results = await Promise.allSettled([
+      this.collectSystem(instance, snapshot),
+      this.collectDockerTasks(instance, snapshot),
+      this.collectMonitorTable(instance, snapshot),
+      this.collectServices(instance, snapshot),
+    ]);
+
+    results.forEach((result, index) => {
+      const source: Source = SOURCES[index];
+      snapshot.add('easypanel_exporter_poll_success', { instance, source }, result.status === 'fulfilled' ? 1 : 0);
+      if (result.status === 'rejected') {
+        logger.warn(`Polling ${source} stats of instance ${instance} failed`, { error: result.reason });
+      }
+    });
+
+    snapshot.add('easypanel_exporter_poll_duration_seconds', { instance }, (Date.now() - startedAt) / 1000);
+    snapshot.add('easypanel_exporter_last_poll_timestamp_seconds', { instance }, Date.now() / 1000);
+    return snapshot;
+  }
+
+  private async collectSystem(instance: string, snapshot: Snapshot): Promise<void> {
+    const stats = await getClient(instance).query('monitor.getSystemStats', undefined, FRESH);
+
+    snapshot.add('easypanel_cpu_usage_percent', { instance }, stats.cpu?.usage);
+    snapshot.add('easypanel_cpu_cores', { instance }, stats.cpu?.cores);
+    (stats.cpu?.load_average ?? []).slice(0, 3).forEach((value, index) => {
+      snapshot.add('easypanel_load_average', { instance, period: ['1m', '5m', '15m'][index] }, value);
+    });
+
+    for (const state of ['total', 'used', 'free'] as const) {
+      snapshot.add('easypanel_memory_bytes', { instance, state }, stats.memory?.[state]);
+      snapshot.add('easypanel_disk_bytes', { instance, state }, stats.disk?.[state]);
+    }
+
+    for (const networkInterface of stats.network?.interfaces ?? []) {
+      const labels = { instance, interface: networkInterface.name ?? 'unknown' };
+      snapshot.add('easypanel_network_receive_bytes', labels, networkInterface.rx_bytes);
+      snapshot.add('easypanel_network_transmit_bytes', labels, networkInterface.tx_bytes);
+    }
+
+    snapshot.add('easypanel_uptime_seconds', { instance }, stats.uptime);
+  }
+
+  private async collectDockerTasks(instance: string, snapshot: Snapshot): Promise<void> {
+    const stats = await getClient(instance).query('monitor.getDockerTaskStats', undefined, FRESH);
+
+    for (const container of stats.containers ?? []) {
+      const labels = {
+        instance,
+        project: container.project ?? '',
+        service: container.service ?? '',
+        container: container.name,
+      };
+      snapshot.add('easypanel_container_up', labels, isRunning(container.state));
+      snapshot.add('easypanel_container_cpu_percent', labels, container.cpu);
+      snapshot.add('easypanel_container_memory_bytes', labels, container.memory_used);
+      snapshot.add('easypanel_container_memory_limit_bytes', labels, container.memory_limit);
+      snapshot.add('easypanel_container_network_receive_bytes', labels, container.network?.rx);
+      snapshot.add('easypanel_container_network_transmit_bytes', labels, container.network?.tx);
+      snapshot.add('easypanel_container_restarts', labels, container.restarts);
+    }
+  }
+
+  private async collectMonitorTable(instance: string, snapshot: Snapshot): Promise<void> {
+    const table = await getClient(instance).query('monitor.getMonitorTableData', undefined, FRESH);
+
+    snapshot.add('easypanel_projects', { instance }, table.total_projects);
+    snapshot.add('easypanel_running_services', { instance }, table.running_services);
+    snapshot.add('easypanel_containers', { instance }, table.total_containers);
+
+    for (const service of table.services ?? []) {
+      snapshot.add('easypanel_service_up', { instance, project: service.project ?? '', service: service.name }, isRunning(service.status));
+    }
+  }
+
+  /**
+   * getServiceStats is per service, so walk the project list; the requests share tRPC batches
+   */
+  private async collectServices(instance: string, snapshot: Snapshot): Promise<void> {
+    const client = getClient(instance);
+    const { services } = await client.listProjects();
+
+    const results = await Promise.allSettled(services.map(async service => {
+      const stats = await client.query('monitor.getServiceStats', { projectName: service.projectName, serviceName: service.name }, FRESH);
+      const labels = { instance, project: service.projectName, service: service.name };
+
+      if (typeof stats.enabled === 'boolean') {
+        snapshot.add('easypanel_service_enabled', labels, stats.enabled ? 1 : 0);
+      }
+      snapshot.add('easypanel_service_cpu_percent', labels, stats.cpu?.percent);
+      snapshot.add('easypanel_service_memory_bytes', labels, stats.memory?.usage);
+      snapshot.add('easypanel_service_memory_percent', labels, stats.memory?.percent);
+      snapshot.add('easypanel_service_network_receive_bytes', labels, stats.network?.in);
+      snapshot.add('easypanel_service_network_transmit_bytes', labels, stats.network?.out);
+    }));
+
+    const failed = results.filter(result => result.status === 'rejected');
+    if (failed.length > 0) {
+      throw new Error(`Stats of ${failed.length} of ${services.length} service(s) could not be read: ${(failed[0] as PromiseRejectedResult).reason}`);
+    }
+  }
+
+  async start(): Promise<void> {
+    await new Promise<void>((resolve) => {
+      const server = this.app.listen(this.port, () => {
+        logger.info(`Exporter running on port ${this.port}, polling ${this.instances.join(', ')} every ${this.intervalSeconds}s`);
+        logger.info(`Metrics: http://localhost:${this.port}/metrics`);
+        resolve();
+      });
+
+      server.on('error', (error: any) => {
+        if (error.code === 'EADDRINUSE') {
+          logger.error(`Port ${this.port} is already in use`);
+        } else {
+          logger.error('Server error', { error });
+        }
+        process.exit(1);
+      });
+    });
+
+    // Serve the first poll's gauges as soon as they arrive, then keep them fresh
+    void this.poll();
+    this.timer = setInterval(() => void this.poll(), this.intervalSeconds * 1000);
+
+    process.on('SIGTERM', () => this.stop());
+    process.on('SIGINT', () => this.stop());
+  }
+
+  stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+    }
+    logger.info('Exporter stopped');
+    process.exit(0);
+  }
+}
+
+export default StatsExporter;
@@ -12,6 +12,10 @@ import { CallToolRequestSchema, JSONRPCMessage, McpError } from '@modelcontextpr
 import { randomUUID } from 'node:crypto';
 import { registerProgressCallback, unregisterProgressCallback, ProgressUpdate } from './utils/progress.js';
 import ClientDetector from './client-detection.js';
+import { createLogger, requestCorrelationId, withCorrelationId } from './utils/logger.js';
+import { metrics, PROMETHEUS_CONTENT_TYPE } from './utils/metrics.js';
+
+const logger = createLogger('HTTP');
 
 interface ConnectionInfo {
   id: string;
@@ -21,6 +25,18 @@ interface ConnectionInfo {
   isStreaming?: boolean;
 }
 
+// Servers in this process and their open /progress streams, for the connections gauge
+const liveServers = new Set<HttpTransportServer>();
+let openProgressStreams = 0;
+
+metrics.gauge('easypanel_mcp_sse_connections', 'Open MCP sessions and /progress event streams', () => [
+  {
+    labels: { kind: 'session' },
+    value: Array.from(liveServers).reduce((total, server) => total + server.getConnectionCount(), 0),
+  },
+  { labels: { kind: 'progress_stream' }, value: openProgressStreams },
+]);
+
 interface StreamingProgress {
   toolName: string;
   progress: number;
@@ -46,6 +62,7 @@ export class HttpTransportServer {
     this.setupMiddleware();
     this.setupRoutes();
     this.startCleanupTimer();
+    liveServers.add(this);
   }
 
   private setupMiddleware() {
@@ -53,18 +70,24 @@ export class HttpTransportServer {
     this.app.use(cors({
       origin: process.env.SSE_CORS_ORIGIN || '*',
       methods: ['GET', 'POST', 'DELETE', 'OPTIONS'],
+      exposedHeaders: ['X-Correlation-ID', 'Mcp-Session-Id'],
       credentials: true
     }));
 
     // JSON parsing with limit
     this.app.use(express.json({ limit: '10mb' }));
 
-    // Request logging with client detection
+    // Request logging with client detection; everything the request causes logs its correlation id
     this.app.use((req, res, next) => {
       const client = this.clientDetector.detectClient(req);
-      console.error(`[HTTP] ${req.method} ${req.path} - Client: ${client.name} (${client.type}) - ${new Date().toISOString()}`);
-      (req as any)._clientInfo = client;
-      next();
+      const correlationId = requestCorrelationId(req.headers['x-correlation-id']);
+      res.setHeader('X-Correlation-ID', correlationId);
+
+      withCorrelationId(correlationId, () => {
+        logger.info(`${req.method} ${req.path} - Client: ${client.name} (${client.type})`);
+        (req as any)._clientInfo = client;
+        next();
+      });
     });
 
     // Health check endpoint
@@ -76,6 +99,11 @@ export class HttpTransportServer {
         uptime: process.uptime()
       });
     });
+
+    // Prometheus metrics
+    this.app.get('/metrics', (req, res) => {
+      res.type(PROMETHEUS_CONTENT_TYPE).send(metrics.render());
+    });
   }
 
   private setupRoutes() {
@@ -100,7 +128,7 @@ export class HttpTransportServer {
 
     // Error handling
     this.app.use((err: Error, req: Request, res: Response, next: NextFunction) => {
-      console.error('[HTTP] Error:', err);
+      logger.error('Request failed', { error: err });
       if (!res.headersSent) {
         res.status(500).json({
           error: 'Internal Server Error',
@@ -125,10 +153,10 @@ export class HttpTransportServer {
         const transport = new StreamableHTTPServerTransport({
           sessionIdGenerator: () => sessionId,
           onsessioninitialized: async (sid) => {
-            console.error(`[HTTP] Session initialized: ${sid} for ${client.name}`);
+            logger.info(`Session initialized: ${sid} for ${client.name}`);
           },
           onsessionclosed: async (sid) => {
-            console.error(`[HTTP] Session closed: ${sid}`);
+            logger.info(`Session closed: ${sid}`);
             this.connections.delete(sid);
             this.streamingSessions.delete(sid);
           },
@@ -143,7 +171,7 @@ export class HttpTransportServer {
         };
 
         transport.onerror = (error) => {
-          console.error(`[HTTP] Transport error for session ${sessionId}:`, error);
+          logger.error(`Transport error for session ${sessionId}`, { error });
           this.connections.delete(sessionId);
           unregisterProgressCallback(sessionId);
         };
@@ -188,7 +216,7 @@ export class HttpTransportServer {
       }
 
     } catch (error) {
-      console.error('[HTTP] MCP Request failed:', error);
+      logger.error('MCP request failed', { error });
       if (!res.headersSent) {
         res.status(500).json({
           error: 'MCP Request Failed',
@@ -219,6 +247,7 @@ export class HttpTransportServer {
       sessionId,
       timestamp: new Date().toISOString()
     })}\n\n`);
+    openProgressStreams++;
 
     // Keep connection alive and send progress updates
     const interval = setInterval(() => {
@@ -240,6 +269,7 @@ export class HttpTransportServer {
     // Cleanup on disconnect
     req.on('close', () => {
       clearInterval(interval);
+      openProgressStreams--;
     });
   }
 
@@ -248,7 +278,7 @@ export class HttpTransportServer {
     const sessionProgress = this.streamingSessions.get(sessionId);
     if (sessionProgress) {
       sessionProgress.push(progress as StreamingProgress);
-      console.error(`[Progress] ${sessionId}: ${progress.toolName} - ${progress.progress}% - ${progress.message}`);
+      logger.debug(`Progress ${sessionId}: ${progress.toolName} - ${progress.progress}% - ${progress.message}`);
     }
   }
 
@@ -260,7 +290,7 @@ export class HttpTransportServer {
 
       for (const [id, connection] of this.connections.entries()) {
         if (now.getTime() - connection.lastActivity.getTime() > timeout) {
-          console.error(`[HTTP] Cleaning up inactive connection: ${id}`);
+          logger.info(`Cleaning up inactive connection: ${id}`);
           connection.transport.close();
           this.connections.delete(id);
           this.streamingSessions.delete(id);
@@ -273,9 +303,9 @@ export class HttpTransportServer {
   async start(): Promise<void> {
     return new Promise((resolve) => {
       const server = this.app.listen(this.port, () => {
-        console.error(`[HTTP] MCP Server running on port ${this.port}`);
-        console.error(`[HTTP] SSE endpoint: http://localhost:${this.port}/progress/{sessionId}`);
-        console.error(`[HTTP] Health check: http://localhost:${this.port}/health`);
+        logger.info(`MCP Server running on port ${this.port}`);
+        logger.info(`SSE endpoint: http://localhost:${this.port}/progress/{sessionId}`);
+        logger.info(`Health check: http://localhost:${this.port}/health`);
         resolve();
       });
 
@@ -287,9 +317,9 @@ export class HttpTransportServer {
       // Handle server errors
       server.on('error', (error: any) => {
         if (error.code === 'EADDRINUSE') {
-          console.error(`[HTTP] Port ${this.port} is already in use`);
+          logger.error(`Port ${this.port} is already in use`);
         } else {
-          console.error('[HTTP] Server error:', error);
+          logger.error('Server error', { error });
         }
         process.exit(1);
       });
@@ -300,12 +330,12 @@ export class HttpTransportServer {
     if (this.isShuttingDown) return;
     this.isShuttingDown = true;
 
-    console.error('[HTTP] Shutting down HTTP server...');
+    logger.info('Shutting down HTTP server...');
 
     // Close all connections
     const closePromises = Array.from(this.connections.values()).map(c =>
       c.transport.close().catch(err =>
-        console.error(`[HTTP] Error closing connection ${c.id}:`, err)
+        logger.warn(`Error closing connection ${c.id}`, { error: err })
       )
     );
 
@@ -314,7 +344,7 @@ export class HttpTransportServer {
     // Close MCP server
     await this.mcpServer.close();
 
-    console.error('[HTTP] Server shutdown complete');
+    logger.info('Server shutdown complete');
     process.exit(0);
   }
 
@@ -11,22 +11,31 @@ import { StdioServerTransport } from '@modelcontextprotocol/sdk/server/stdio.js'
 import {
   CallToolRequestSchema,
   ListToolsRequestSchema,
+  ListResourcesRequestSchema,
+  ListResourceTemplatesRequestSchema,
+  ReadResourceRequestSchema,
+  ListPromptsRequestSchema,
+  GetPromptRequestSchema,
   McpError,
   ErrorCode,
 } from '@modelcontextprotocol/sdk/types.js';
 
 import HttpTransportServer from './http-transport.js';
 import RestApiServer from './rest-api.js';
+import StatsExporter, { DEFAULT_EXPORTER_INTERVAL_SECONDS } from './exporter.js';
 import ClientDetector, { ClientType, ClientInfo } from './client-detection.js';
 
-import { projectTools, handleProjectTool } from './tools/projects.js';
-import { serviceTools, handleServiceTool } from './tools/services.js';
-import { databaseTools, handleDatabaseTool } from './tools/databases.js';
-import { domainTools, handleDomainTool } from './tools/domains.js';
-import { licenseTools, handleLicenseTool } from './tools/license.js';
-import { monitoringTools, handleMonitoringTool } from './tools/monitoring.js';
-import { dockerTools, handleDockerCleanupImages, handleDockerPruneBuilderCache } from './tools/docker.js';
-import { systemTools, handleSystemTool } from './tools/system.js';
+import { toolRegistry } from './tools/index.js';
+import { getToolPolicy } from './tools/policy.js';
+import { getConfig, getConfigPath, loadConfig } from './config.js';
+import { isDryRunEnabled } from './api/client.js';
+import { listResources, readResource, resourceTemplates } from './resources.js';
+import { getPrompt, listPrompts } from './prompts.js';
+import { ValidationError } from './utils/errors.js';
+import { configureLogger, createLogger, ensureCorrelationId } from './utils/logger.js';
+import { configureTracing } from './utils/tracing.js';
+
+const logger = createLogger('MCP');
 
 class EasyPanelMCPServer {
   private server: Server;
@@ -44,6 +53,8 @@ class EasyPanelMCPServer {
       {
         capabilities: {
           tools: {},
+          resources: {},
+          prompts: {},
         },
       }
     );
@@ -54,7 +65,7 @@ class EasyPanelMCPServer {
 
   private setupErrorHandling() {
     this.server.onerror = (error) => {
-      console.error('[MCP Error]', error);
+      logger.error('MCP server error', { error });
     };
 
     process.on('SIGINT', async () => {
@@ -66,18 +77,7 @@ class EasyPanelMCPServer {
   private setupHandlers() {
     // List all available tools
     this.server.setRequestHandler(ListToolsRequestSchema, async () => {
-      const allTools = [
-        ...Object.values(projectTools),
-        ...Object.values(serviceTools),
-        ...Object.values(databaseTools),
-        ...Object.values(domainTools),
-        ...Object.values(licenseTools),
-        ...Object.values(monitoringTools),
-        ...Object.values(dockerTools),
-        ...Object.values(systemTools),
-      ];
-
-      return { tools: allTools };
+      return { tools: toolRegistry.list() };
     });
 
     // Handle tool execution
@@ -96,72 +96,74 @@ class EasyPanelMCPServer {
       }
 
       const clientName = client ? client.name : 'Unknown';
-      console.error(`[MCP] Executing tool: ${name}${sessionId ? ` (session: ${sessionId})` : ''} for ${clientName}`);
+      // stdio requests arrive without one; HTTP requests keep the id their transport assigned
+      return ensureCorrelationId(async () => {
+        logger.info(`Executing tool: ${name}${sessionId ? ` (session: ${sessionId})` : ''} for ${clientName}`);
 
-      try {
-        // Project tools
-        if (name in projectTools) {
-          return await handleProjectTool(name, args);
-        }
+        try {
+          return await toolRegistry.call(name, args, { sessionId, client });
+        } catch (error) {
+          logger.error(`Tool ${name} failed`, { error });
 
-        // Service tools
-        if (name in serviceTools) {
-          return await handleServiceTool(name, args);
-        }
+          if (error instanceof McpError) {
+            throw error;
+          }
 
-        // Database tools
-        if (name in databaseTools) {
-          return await handleDatabaseTool(name, args);
+          const message = error instanceof Error ? error.message : String(error);
+          throw new McpError(ErrorCode.InternalError, message);
         }
+      });
+    });
 
-        // Domain tools
-        if (name in domainTools) {
-          return await handleDomainTool(name, args);
-        }
+    // List service resources
+    this.server.setRequestHandler(ListResourcesRequestSchema, async () => {
+      return { resources: await listResources() };
+    });
 
-        // License tools
-        if (name in licenseTools) {
-          return await handleLicenseTool(name, args);
-        }
+    this.server.setRequestHandler(ListResourceTemplatesRequestSchema, async () => {
+      return { resourceTemplates };
+    });
 
-        // Monitoring tools
-        if (name in monitoringTools) {
-          return await handleMonitoringTool(name, args);
-        }
+    // Read a service resource
+    this.server.setRequestHandler(ReadResourceRequestSchema, async (request) => {
+      const { uri } = request.params;
 
-        // Docker tools
-        if (name in dockerTools) {
-          switch (name) {
-            case 'docker_cleanup_images':
-              return await handleDockerCleanupImages(args || {}, sessionId);
-            case 'docker_prune_builder_cache':
-              return await handleDockerPruneBuilderCache(args || {}, sessionId);
-          }
-        }
+      return ensureCorrelationId(async () => {
+        logger.info(`Reading resource: ${uri}`);
 
-        // System tools
-        if (name in systemTools) {
-          return await handleSystemTool(name, args);
-        }
+        try {
+          return await readResource(uri);
+        } catch (error) {
+          logger.error(`Resource read failed: ${uri}`, { error });
 
-        throw new McpError(ErrorCode.MethodNotFound, `Unknown tool: ${name}`);
-      } catch (error) {
-        console.error(`[MCP] Tool execution failed:`, error);
+          if (error instanceof McpError) {
+            throw error;
+          }
+          if (error instanceof ValidationError) {
+            throw new McpError(ErrorCode.InvalidParams, error.message);
+          }
 
-        if (error instanceof McpError) {
-          throw error;
+          const message = error instanceof Error ? error.message : String(error);
+          throw new McpError(ErrorCode.InternalError, message);
         }
+      });
+    });
 
-        const message = error instanceof Error ? error.message : String(error);
-        throw new McpError(ErrorCode.InternalError, message);
-      }
+    // Workflow prompts
+    this.server.setRequestHandler(ListPromptsRequestSchema, async () => {
+      return { prompts: listPrompts() };
+    });
+
+    this.server.setRequestHandler(GetPromptRequestSchema, async (request) => {
+      const { name, arguments: args } = request.params;
+      return getPrompt(name, args);
     });
   }
 
   async runStdio() {
     const transport = new StdioServerTransport();
     await this.server.connect(transport);
-    console.error('[MCP] EasyPanel MCP Server running on stdio');
+    logger.info('EasyPanel MCP Server running on stdio');
   }
 
   async runHttp(port: number = 3001) {
@@ -174,8 +176,12 @@ class EasyPanelMCPServer {
     await this.restApiServer.start();
   }
 
+  async runExporter(port: number = 3001, intervalSeconds: number = DEFAULT_EXPORTER_INTERVAL_SECONDS) {
+    await new StatsExporter(port, intervalSeconds).start();
+  }
+
   async runAll(httpPort: number = 3001, restPort: number = 3002) {
-    console.error('[MCP] Starting multiple transports...');
+    logger.info('Starting multiple transports...');
 
     // Start HTTP/SSE transport
     this.httpServer = new HttpTransportServer(this.server, httpPort);
@@ -190,7 +196,13 @@ class EasyPanelMCPServer {
     ]);
   }
 
-  async run(transport: 'stdio' | 'sse' | 'rest' | 'all' = 'stdio', port?: number, httpPort?: number, restPort?: number) {
+  async run(
+    transport: 'stdio' | 'sse' | 'rest' | 'all' | 'exporter' = 'stdio',
+    port?: number,
+    httpPort?: number,
+    restPort?: number,
+    exporterInterval?: number
+  ) {
     switch (transport) {
       case 'stdio':
         await this.runStdio();
@@ -204,30 +216,33 @@ class EasyPanelMCPServer {
       case 'all':
         await this.runAll(httpPort || 3001, restPort || 3002);
         break;
+      case 'exporter':
+        await this.runExporter(port || 3001, exporterInterval);
+        break;
       default:
-        throw new Error(`Unknown transport type: ${transport}. Use: stdio, sse, rest, or all`);
+        throw new Error(`Unknown transport type: ${transport}. Use: stdio, sse, rest, all, or exporter`);
     }
   }
 
   private async shutdown() {
-    console.error('[MCP] Shutting down EasyPanel MCP Server...');
+    logger.info('Shutting down EasyPanel MCP Server...');
 
     // Close HTTP transport if running
     if (this.httpServer) {
-      console.error('[MCP] Closing HTTP transport...');
+      logger.info('Closing HTTP transport...');
       // Note: HttpTransportServer handles its own shutdown
     }
 
     // Close REST API if running
     if (this.restApiServer) {
-      console.error('[MCP] Closing REST API...');
+      logger.info('Closing REST API...');
       // Note: RestApiServer handles its own shutdown
     }
 
     // Close MCP server
     await this.server.close();
 
-    console.error('[MCP] Shutdown complete');
+    logger.info('Shutdown complete');
   }
 
   // Get supported clients information
@@ -275,22 +290,30 @@ program
   .name('easypanel-mcp')
   .description('Multi-client MCP Server for EasyPanel - supports Claude, Cursor, Windsurf, Kiro, and Web IDEs')
   .version('1.0.1')
-  .option('-t, --transport <type>', 'Transport type: stdio (default), sse, rest, or all', 'stdio')
+  .option('-t, --transport <type>', 'Transport type: stdio (default), sse, rest, all, or exporter', 'stdio')
   .option('-p, --port <number>', 'Port for SSE/HTTP transport (default: 3001)', '3001')
   .option('-r, --rest-port <number>', 'Port for REST API transport (default: 3002)', '3002')
   .option('-c, --client <type>', 'Force client type (claude, cursor, windsurf, kiro, web, generic)')
+  .option('--config <path>', 'Path to a JSON config file (default: $EASYPANEL_MCP_CONFIG)')
   .option('--http-port <number>', 'HTTP port for "all" transport (default: 3001)', '3001')
   .option('--rest-api-port <number>', 'REST API port for "all" transport (default: 3002)', '3002')
+  .option('--exporter-interval <seconds>', 'How often the "exporter" transport polls EasyPanel stats (default: 30)')
   .option('-v, --verbose', 'Enable verbose logging')
+  .option('--dry-run', 'Plan mutations instead of sending them to EasyPanel')
+  .option('--read-only', 'Only expose tools that do not modify EasyPanel')
   .option('--list-clients', 'List all supported AI clients and exit')
   .parse();
 
 const options = program.opts();
 
-// Enable verbose logging if requested
-if (options.verbose) {
-  process.env.DEBUG = 'true';
-  console.error('[MCP] Verbose mode enabled');
+// Record mutations instead of sending them if requested
+if (options.dryRun) {
+  process.env.EASYPANEL_DRY_RUN = 'true';
+}
+
+// Hide every tool that can modify EasyPanel if requested
+if (options.readOnly) {
+  process.env.EASYPANEL_READ_ONLY = 'true';
 }
 
 // Set client type if forced
@@ -298,6 +321,40 @@ if (options.client) {
   process.env.MCP_CLIENT = options.client.toLowerCase();
 }
 
+// Load named instances and other settings from the config file
+try {
+  loadConfig(options.config);
+} catch (error) {
+  logger.error(error instanceof Error ? error.message : String(error));
+  process.exit(1);
+}
+
+// --verbose logs at debug level; otherwise EASYPANEL_LOG_LEVEL or the config file decide
+const logSettings = configureLogger(getConfig().logging, options.verbose);
+if (options.verbose) {
+  logger.debug(`Verbose mode enabled (${logSettings.format} output)`);
+}
+if (getConfigPath()) {
+  logger.info(`Loaded config from ${getConfigPath()}`);
+}
+
+// Spans for tool calls, EasyPanel requests and shell commands, if EASYPANEL_TRACE_OUTPUT or the config file enable them
+const traceOutput = configureTracing(getConfig().tracing, options.transport !== 'stdio');
+if (traceOutput) {
+  logger.info(`Tracing enabled: writing spans to ${traceOutput.type === 'file' ? traceOutput.path : 'stdout'}`);
+}
+
+if (isDryRunEnabled()) {
+  logger.info('Dry-run mode enabled: mutating tools return a plan and change nothing');
+}
+
+// Report the tools hidden by --read-only or the config file policy
+const hiddenTools = toolRegistry.names().filter(name => !toolRegistry.isAllowed(name));
+if (hiddenTools.length > 0) {
+  const mode = getToolPolicy().readOnly ? ' (read-only mode)' : '';
+  logger.info(`Tool policy hides ${hiddenTools.length} tool(s)${mode}: ${hiddenTools.join(', ')}`);
+}
+
 // Main entry point
 const server = new EasyPanelMCPServer();
 
@@ -321,42 +378,49 @@ if (options.listClients) {
   console.error('- stdio: Standard MCP protocol (Claude, Cursor, Windsurf)');
   console.error('- sse: HTTP with Server-Sent Events (All clients except Kiro)');
   console.error('- rest: REST API (Kiro, Web IDEs, others)');
-  console.error('- all: Run all transports simultaneously\n');
+  console.error('- all: Run all transports simultaneously');
+  console.error('- exporter: Serve EasyPanel stats as Prometheus metrics (no MCP)\n');
 
   process.exit(0);
 }
 
 // Start the server with the specified transport
-const transportType = options.transport as 'stdio' | 'sse' | 'rest' | 'all';
+const transportType = options.transport as 'stdio' | 'sse' | 'rest' | 'all' | 'exporter';
 const port = parseInt(options.port) || 3001;
 const restPort = parseInt(options.restPort) || 3002;
 const httpPort = parseInt(options.httpPort) || 3001;
 const restApiPort = parseInt(options.restApiPort) || 3002;
+const exporterInterval = parseFloat(options.exporterInterval) || getConfig().exporter?.interval || DEFAULT_EXPORTER_INTERVAL_SECONDS;
 
-console.error(`[MCP] Starting EasyPanel MCP Server with ${transportType} transport`);
-console.error(`[MCP] Multi-client support enabled for Claude, Cursor, Windsurf, Kiro, and Web IDEs`);
+logger.info(`Starting EasyPanel MCP Server with ${transportType} transport`);
+logger.info(`Multi-client support enabled for Claude, Cursor, Windsurf, Kiro, and Web IDEs`);
 
 switch (transportType) {
   case 'stdio':
-    console.error(`[MCP] Using stdio transport`);
+    logger.info(`Using stdio transport`);
     break;
   case 'sse':
-    console.error(`[MCP] HTTP/SSE port: ${port}`);
-    console.error(`[MCP] WebSocket endpoint: http://localhost:${port}/progress/{sessionId}`);
+    logger.info(`HTTP/SSE port: ${port}`);
+    logger.info(`WebSocket endpoint: http://localhost:${port}/progress/{sessionId}`);
     break;
   case 'rest':
-    console.error(`[MCP] REST API port: ${restPort}`);
-    console.error(`[MCP] API base URL: http://localhost:${restPort}/api`);
-    console.error(`[MCP] API docs: http://localhost:${restPort}/api/docs`);
+    logger.info(`REST API port: ${restPort}`);
+    logger.info(`API base URL: http://localhost:${restPort}/api`);
+    logger.info(`API docs: http://localhost:${restPort}/api/docs`);
     break;
   case 'all':
-    console.error(`[MCP] HTTP/SSE port: ${httpPort}`);
-    console.error(`[MCP] REST API port: ${restApiPort}`);
-    console.error(`[MCP] Running all transports simultaneously`);
+    logger.info(`HTTP/SSE port: ${httpPort}`);
+    logger.info(`REST API port: ${restApiPort}`);
+    logger.info(`Running all transports simultaneously`);
+    break;
+  case 'exporter':
+    logger.info(`Exporter port: ${port}`);
+    logger.info(`Polling EasyPanel stats every ${exporterInterval}s`);
     break;
 }
 
-server.run(transportType, port, httpPort, restApiPort).catch((error) => {
-  console.error('[Fatal]', error);
+// The rest transport listens on --rest-port; sse uses --port
+server.run(transportType, transportType === 'rest' ? restPort : port, httpPort, restApiPort, exporterInterval).catch((error) => {
+  logger.error('Fatal error', { error });
   process.exit(1);
 });
@@ -0,0 +1,157 @@
+/**
+ * MCP Prompts
+ * Parameterized walkthroughs for common EasyPanel workflows, built on the registered tools
+ */
+
+import {
+  ErrorCode,
+  GetPromptResult,
+  McpError,
+  Prompt,
+  PromptArgument,
+} from '@modelcontextprotocol/sdk/types.js';
+
+interface PromptDefinition {
+  name: string;
+  description: string;
+  arguments: PromptArgument[];
+  render: (args: Record<string, string>) => string;
+}
+
+const instanceArgument: PromptArgument = {
+  name: 'instance',
+  description: 'EasyPanel instance to use (default: the configured default instance)',
+  required: false,
+};
+
+/**
+ * Sentence telling the assistant which instance to pass to every tool call
+ */
+function instanceNote(args: Record<string, string>): string {
+  return args.instance
+    ? `Pass \`instance: "${args.instance}"\` to every tool call.`
+    : 'Use the default EasyPanel instance.';
+}
+
+const promptDefinitions: PromptDefinition[] = [
+  {
+    name: 'deploy_git_app_with_postgres',
+    description: 'Deploy a git repository as an app service with a PostgreSQL database and a custom domain',
+    arguments: [
+      { name: 'projectName', description: 'Project to deploy into (created if missing)', required: true },
+      { name: 'serviceName', description: 'Name of the app service', required: true },
+      { name: 'repo', description: 'Git repository URL', required: true },
+      { name: 'domain', description: 'Domain to route to the app', required: true },
+      { name: 'ref', description: 'Branch, tag or commit to deploy (default: main)', required: false },
+      { name: 'port', description: 'Port the app listens on (default: 3000)', required: false },
+      instanceArgument,
+    ],
+    render: (args) => {
+      const ref = args.ref || 'main';
+      const port = args.port || '3000';
+      const dbService = `${args.serviceName}-db`;
+
+      return [
+        `Deploy the git repository ${args.repo} (ref \`${ref}\`) as service \`${args.serviceName}\` in project \`${args.projectName}\`, backed by PostgreSQL and served on https://${args.domain}.`,
+        instanceNote(args),
+        '',
+        'Follow these steps in order and stop to report if any step fails:',
+        `1. Call \`list_projects\`. If \`${args.projectName}\` does not exist, create it with \`create_project\`.`,
+        `2. Call \`create_postgres\` with serviceName \`${dbService}\`, a database name and user derived from \`${args.serviceName}\`, and a freshly generated strong password. Keep the password; do not echo it back to the user.`,
+        `3. Call \`create_app_service\` for \`${args.serviceName}\`.`,
+        `4. Call \`update_env\` on \`${args.serviceName}\` to set DATABASE_URL=postgres://<user>:<password>@${args.projectName}_${dbService}:5432/<database> and PORT=${port}.`,
+        `5. Call \`deploy_from_git\` with repo \`${args.repo}\` and ref \`${ref}\`.`,
+        '6. Call `get_build_status` (or `wait_for_deploy` with the build id) until the deployment finishes. If it fails, call `search_logs` with query "error" and summarize the cause.',
+        `7. Call \`add_domain\` with domain \`${args.domain}\`, port ${port} and https enabled, then \`enable_https\` if the certificate is not issued automatically.`,
+        `8. Finish with a short summary: service status, the URL https://${args.domain}, and the database service name (not its password).`,
+      ].join('\n');
+    },
+  },
+  {
+    name: 'diagnose_service',
+    description: 'Investigate why a service is failing and propose a fix',
+    arguments: [
+      { name: 'projectName', description: 'Project containing the service', required: true },
+      { name: 'serviceName', description: 'Service that is failing', required: true },
+      { name: 'symptom', description: 'What is going wrong, in your own words', required: false },
+      instanceArgument,
+    ],
+    render: (args) => [
+      `Diagnose why service \`${args.serviceName}\` in project \`${args.projectName}\` is failing.`,
+      args.symptom ? `Reported symptom: ${args.symptom}` : 'No symptom was reported; start from the service status.',
+      instanceNote(args),
+      '',
+      'Gather evidence before changing anything:',
+      `1. Call \`inspect_project\` for \`${args.projectName}\` and check the service status, image or source, resources and env variable names.`,
+      '2. Call `get_build_status` to see whether the latest deployment failed.',
+      '3. Call `search_logs` with queries such as "error", "exception", "killed" and "refused", and `get_service_logs` for the most recent lines.',
+      '4. Call `get_service_stats` to check CPU and memory pressure; compare memory usage with the configured limit.',
+      '5. Call `list_domains` if the problem is about reachability.',
+      '',
+      'Then report the most likely root cause with the log lines or metrics that support it, and propose a fix.',
+      'Only apply a fix such as `update_env`, `update_resources`, `restart_service` or `redeploy_service` after the user confirms it.',
+    ].join('\n'),
+  },
+  {
+    name: 'rotate_database_credentials',
+    description: 'Rotate the password of a database service and update the apps that use it',
+    arguments: [
+      { name: 'projectName', description: 'Project containing the database', required: true },
+      { name: 'databaseService', description: 'Database service whose credentials should be rotated', required: true },
+      instanceArgument,
+    ],
+    render: (args) => [
+      `Rotate the credentials of database service \`${args.databaseService}\` in project \`${args.projectName}\`.`,
+      instanceNote(args),
+      '',
+      '1. Call `inspect_project` to find the database type (redis, postgres or mysql) and `list_database_links` for the app variables linked with `link_database`; also check the env of the other app services for references to this database (host, DATABASE_URL, REDIS_URL and similar).',
+      '2. Generate a new strong password. Never print it in full; refer to it as <new password>.',
+      '3. Change the password on the database:',
+      '   - Redis: call `update_redis_password`, which also rewrites the linked variables and reports them in `linkedApps`.',
+      '   - PostgreSQL / MySQL: there is no password tool, so ask the user to run ALTER USER in the database console, and wait for confirmation before continuing.',
+      '4. For each dependent app service not updated already, call `set_env_vars` with the connection settings rewritten to use the new password, keeping every other variable unchanged.',
+      '5. Call `redeploy_service` (or `restart_service`) for each dependent app, then `search_logs` with query "auth" or "password" to confirm they reconnect.',
+      '6. Summarize which services were updated and whether any still fail to connect.',
+    ].join('\n'),
+  },
+];
+
+const promptsByName = new Map(promptDefinitions.map(prompt => [prompt.name, prompt]));
+
+export function listPrompts(): Prompt[] {
+  return promptDefinitions.map(({ name, description, arguments: args }) => ({
+    name,
+    description,
+    arguments: args,
+  }));
+}
+
+export function getPrompt(name: string, args: Record<string, string> = {}): GetPromptResult {
+  const prompt = promptsByName.get(name);
+  if (!prompt) {
+    throw new McpError(ErrorCode.InvalidParams, `Unknown prompt: ${name}`);
+  }
+
+  const missing = prompt.arguments
+    .filter(arg => arg.required && !args[arg.name])
+    .map(arg => arg.name);
+  if (missing.length > 0) {
+    throw new McpError(
+      ErrorCode.InvalidParams,
+      `Missing required argument(s) for prompt '${name}': ${missing.join(', ')}`
+    );
+  }
+
+  return {
+    description: prompt.description,
+    messages: [
+      {
+        role: 'user',
+        content: {
+          type: 'text',
+          text: prompt.render(args),
+        },
+      },
+    ],
+  };
+}
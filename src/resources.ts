@@ -0,0 +1,242 @@
+/**
+ * MCP Resources
+ * Exposes live project and service state as easypanel:// resources so
+ * assistants can attach it as context without making tool calls
+ */
+
+import {
+  ErrorCode,
+  McpError,
+  ReadResourceResult,
+  Resource,
+  ResourceTemplate,
+} from '@modelcontextprotocol/sdk/types.js';
+import { getClient, getDefaultInstanceName, getInstances } from './api/client.js';
+import type { ProcedureOutput } from './api/procedures.js';
+import { getToolPolicy } from './tools/policy.js';
+import { createLogger } from './utils/logger.js';
+import { redactConfiguredOutput } from './utils/redaction.js';
+
+const logger = createLogger('MCP');
+
+export type ServiceResourceView = 'service' | 'env' | 'domains' | 'logs';
+
+interface ResourceLocation {
+  projectName: string;
+  instance?: string;
+  // ?reveal=true skips secret masking, as the reveal argument of tools does
+  reveal?: boolean;
+}
+
+export interface ProjectResourceRef extends ResourceLocation {
+  view: 'project';
+}
+
+export interface ServiceResourceRef extends ResourceLocation {
+  serviceName: string;
+  view: ServiceResourceView;
+}
+
+export type ResourceRef = ProjectResourceRef | ServiceResourceRef;
+
+const RESOURCE_URI_PATTERN = /^easypanel:\/\/projects\/([^/?#]+)(?:\/services\/([^/?#]+)(?:\/(env|domains|logs))?)?\/?(?:\?([^#]*))?$/;
+
+// Number of log lines returned by the logs resource
+const LOG_RESOURCE_LINES = 100;
+
+export const resourceTemplates: ResourceTemplate[] = [
+  {
+    uriTemplate: 'easypanel://projects/{project}',
+    name: 'EasyPanel project',
+    description: 'A project with the configuration and status of all its services, as returned by inspect_project',
+    mimeType: 'application/json',
+  },
+  {
+    uriTemplate: 'easypanel://projects/{project}/services/{service}',
+    name: 'EasyPanel service',
+    description: 'Current configuration and status of a service, as returned by inspect_project',
+    mimeType: 'application/json',
+  },
+  {
+    uriTemplate: 'easypanel://projects/{project}/services/{service}/env',
+    name: 'EasyPanel service environment',
+    description: 'Environment variables of a service in .env format',
+    mimeType: 'text/plain',
+  },
+  {
+    uriTemplate: 'easypanel://projects/{project}/services/{service}/domains',
+    name: 'EasyPanel service domains',
+    description: 'Domains configured for a service',
+    mimeType: 'application/json',
+  },
+  {
+    uriTemplate: 'easypanel://projects/{project}/services/{service}/logs',
+    name: 'EasyPanel service logs',
+    description: `Recent logs (last ${LOG_RESOURCE_LINES} lines) and the live log stream URL of a service`,
+    mimeType: 'application/json',
+  },
+];
+
+/**
+ * Build the URI of a project or service resource; non-default instances are selected with ?instance=
+ */
+export function resourceUri(ref: ResourceRef): string {
+  const project = `easypanel://projects/${encodeURIComponent(ref.projectName)}`;
+  const query = ref.instance ? `?instance=${encodeURIComponent(ref.instance)}` : '';
+  if (ref.view === 'project') {
+    return `${project}${query}`;
+  }
+
+  const suffix = ref.view === 'service' ? '' : `/${ref.view}`;
+  return `${project}/services/${encodeURIComponent(ref.serviceName)}${suffix}${query}`;
+}
+
+export function parseResourceUri(uri: string): ResourceRef {
+  const match = RESOURCE_URI_PATTERN.exec(uri);
+  if (!match) {
+    throw new McpError(
+      ErrorCode.InvalidParams,
+      `Unsupported resource URI: ${uri}. Expected easypanel://projects/{project}[/services/{service}[/env|/domains|/logs]]`
+    );
+  }
+
+  const [, project, service, view, query] = match;
+  const params = new URLSearchParams(query ?? '');
+  const location: ResourceLocation = {
+    projectName: decodeURIComponent(project),
+    instance: params.get('instance') || undefined,
+    reveal: params.get('reveal') === 'true',
+  };
+
+  if (service === undefined) {
+    return { ...location, view: 'project' };
+  }
+
+  return {
+    ...location,
+    serviceName: decodeURIComponent(service),
+    view: (view as ServiceResourceView | undefined) || 'service',
+  };
+}
+
+/**
+ * List one resource per project and per service across all configured instances
+ */
+export async function listResources(): Promise<Resource[]> {
+  const defaultInstance = getDefaultInstanceName();
+  const instanceNames = getInstances().map(instance => instance.name);
+  if (instanceNames.length === 0) {
+    instanceNames.push(defaultInstance);
+  }
+
+  const resources: Resource[] = [];
+
+  for (const instanceName of instanceNames) {
+    try {
+      const { projects, services } = await getClient(instanceName).listProjects();
+      const instance = instanceName === defaultInstance ? undefined : instanceName;
+      const prefix = instanceNames.length > 1 ? `${instanceName}/` : '';
+
+      for (const project of projects) {
+        resources.push({
+          uri: resourceUri({ projectName: project.name, view: 'project', instance }),
+          name: `${prefix}${project.name}`,
+          description: `Project '${project.name}' and its services`,
+          mimeType: 'application/json',
+        });
+      }
+
+      for (const service of services) {
+        if (!service?.projectName || !service?.name) {
+          continue;
+        }
+
+        resources.push({
+          uri: resourceUri({
+            projectName: service.projectName,
+            serviceName: service.name,
+            view: 'service',
+            instance,
+          }),
+          name: `${prefix}${service.projectName}/${service.name}`,
+          description: `${service.type || 'service'} service '${service.name}' in project '${service.projectName}'`,
+          mimeType: 'application/json',
+        });
+      }
+    } catch (error) {
+      logger.warn(`Failed to list resources for instance '${instanceName}'`, { error });
+    }
+  }
+
+  return resources;
+}
+
+/**
+ * Find a service in the inspect_project output
+ */
+async function inspectService(ref: ServiceResourceRef): Promise<ProcedureOutput<'projects.inspectProject'>['services'][number]> {
+  const project = await getClient(ref.instance).inspectProject(ref.projectName);
+  const service = project.services.find(s => s.name === ref.serviceName);
+
+  if (!service) {
+    throw new McpError(
+      ErrorCode.InvalidParams,
+      `Service '${ref.serviceName}' not found in project '${ref.projectName}'`
+    );
+  }
+
+  return service;
+}
+
+/**
+ * Mask credentials in resource contents like in tool output, unless the URI asks to reveal them
+ */
+function redactResource<T>(value: T, ref: ResourceRef): T {
+  return ref.reveal ? value : redactConfiguredOutput(value);
+}
+
+export async function readResource(uri: string): Promise<ReadResourceResult> {
+  const ref = parseResourceUri(uri);
+  if (ref.reveal && !getToolPolicy().allowReveal) {
+    throw new McpError(ErrorCode.InvalidRequest, `Resource '${uri}' cannot reveal secrets because the policy sets allowReveal to false`);
+  }
+  const client = getClient(ref.instance);
+
+  switch (ref.view) {
+    case 'project': {
+      const project = redactResource(await client.inspectProject(ref.projectName), ref);
+      return {
+        contents: [{ uri, mimeType: 'application/json', text: JSON.stringify(project, null, 2) }],
+      };
+    }
+
+    case 'service': {
+      const service = redactResource(await inspectService(ref), ref);
+      return {
+        contents: [{ uri, mimeType: 'application/json', text: JSON.stringify(service, null, 2) }],
+      };
+    }
+
+    case 'env': {
+      // Masked as the env field of the service, so only secret-looking variables are hidden
+      const service = redactResource(await inspectService(ref), ref);
+      return {
+        contents: [{ uri, mimeType: 'text/plain', text: service.env || '' }],
+      };
+    }
+
+    case 'domains': {
+      const domains = redactResource(await client.listDomains(ref.projectName, ref.serviceName), ref);
+      return {
+        contents: [{ uri, mimeType: 'application/json', text: JSON.stringify(domains, null, 2) }],
+      };
+    }
+
+    case 'logs': {
+      const logs = redactResource(await client.getServiceLogs(ref.projectName, ref.serviceName, { lines: LOG_RESOURCE_LINES }), ref);
+      return {
+        contents: [{ uri, mimeType: 'application/json', text: JSON.stringify(logs, null, 2) }],
+      };
+    }
+  }
+}
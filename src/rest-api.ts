@@ -11,14 +11,14 @@ import { CallToolRequestSchema, JSONRPCMessage, McpError } from '@modelcontextpr
 import { randomUUID } from 'node:crypto';
 import ClientDetector, { ClientType, ClientInfo } from './client-detection.js';
 
-import { projectTools, handleProjectTool } from './tools/projects.js';
-import { serviceTools, handleServiceTool } from './tools/services.js';
-import { databaseTools, handleDatabaseTool } from './tools/databases.js';
-import { domainTools, handleDomainTool } from './tools/domains.js';
-import { licenseTools, handleLicenseTool } from './tools/license.js';
-import { monitoringTools, handleMonitoringTool } from './tools/monitoring.js';
-import { dockerTools, handleDockerCleanupImages, handleDockerPruneBuilderCache } from './tools/docker.js';
-import { systemTools, handleSystemTool } from './tools/system.js';
+import { toolRegistry, ToolContext } from './tools/index.js';
+import { getToolPolicy } from './tools/policy.js';
+import { auditFilterSchema } from './tools/audit.js';
+import { getAuditLogPath, queryAuditLog } from './utils/audit.js';
+import { createLogger, requestCorrelationId, withCorrelationId } from './utils/logger.js';
+import { metrics, PROMETHEUS_CONTENT_TYPE, rateLimitRejections } from './utils/metrics.js';
+
+const logger = createLogger('REST API');
 
 interface RestApiResponse {
   success: boolean;
@@ -65,8 +65,10 @@ export class RestApiServer {
         'X-MCP-Session-ID',
         'X-Client-Name',
         'X-Client-Version',
+        'X-Correlation-ID',
         'X-Requested-With'
       ],
+      exposedHeaders: ['X-Correlation-ID'],
       credentials: true,
       preflightContinue: false,
       optionsSuccessStatus: 204
@@ -76,18 +78,27 @@ export class RestApiServer {
     this.app.use(express.json({ limit: '50mb' }));
     this.app.use(express.urlencoded({ extended: true, limit: '50mb' }));
 
-    // Request logging with client detection
+    // Request logging with client detection; everything the request causes logs its correlation id
     this.app.use((req, res, next) => {
       const client = this.clientDetector.detectClient(req);
       const startTime = Date.now();
+      const correlationId = requestCorrelationId(req.headers['x-correlation-id']);
+      res.setHeader('X-Correlation-ID', correlationId);
 
-      console.error(`[REST API] ${req.method} ${req.path} - Client: ${client.name} (${client.type})`);
+      withCorrelationId(correlationId, () => {
+        logger.info(`${req.method} ${req.path} - Client: ${client.name} (${client.type})`);
 
-      // Attach client info to request
-      (req as any)._clientInfo = client;
-      (req as any)._startTime = startTime;
+        // Attach client info to request
+        (req as any)._clientInfo = client;
+        (req as any)._startTime = startTime;
 
-      next();
+        next();
+      });
+    });
+
+    // Prometheus metrics, registered ahead of the rate limiter so scrapes are never rejected
+    this.app.get('/metrics', (req, res) => {
+      res.type(PROMETHEUS_CONTENT_TYPE).send(metrics.render());
     });
 
     // Rate limiting for web IDEs
@@ -119,6 +130,7 @@ export class RestApiServer {
         const limit = limits[client.type] || 100;
 
         if (clientData.count > limit) {
+          rateLimitRejections.inc({ client_type: client.type });
           return res.status(429).json({
             success: false,
             error: {
@@ -177,7 +189,9 @@ export class RestApiServer {
             tools: '/api/tools',
             execute: '/api/tools/:toolName',
             health: '/api/health',
-            status: '/api/status'
+            status: '/api/status',
+            audit: '/api/audit',
+            metrics: '/metrics'
           }
         }
       });
@@ -189,19 +203,8 @@ export class RestApiServer {
       const startTime = (req as any)._startTime as number;
 
       try {
-        const allTools = [
-          ...Object.values(projectTools),
-          ...Object.values(serviceTools),
-          ...Object.values(databaseTools),
-          ...Object.values(domainTools),
-          ...Object.values(licenseTools),
-          ...Object.values(monitoringTools),
-          ...Object.values(dockerTools),
-          ...Object.values(systemTools),
-        ];
-
         // Filter tools based on client capabilities
-        const filteredTools = this.filterToolsForClient(allTools, client);
+        const filteredTools = this.filterToolsForClient(toolRegistry.list(), client);
 
         const response: RestApiResponse = {
           success: true,
@@ -232,18 +235,7 @@ export class RestApiServer {
       const toolName = req.params.toolName;
 
       try {
-        const allTools = [
-          ...Object.values(projectTools),
-          ...Object.values(serviceTools),
-          ...Object.values(databaseTools),
-          ...Object.values(domainTools),
-          ...Object.values(licenseTools),
-          ...Object.values(monitoringTools),
-          ...Object.values(dockerTools),
-          ...Object.values(systemTools),
-        ];
-
-        const tool = allTools.find(t => t.name === toolName);
+        const tool = toolRegistry.describe(toolName);
 
         if (!tool) {
           return res.status(404).json({
@@ -255,6 +247,10 @@ export class RestApiServer {
           });
         }
 
+        if (!toolRegistry.isAllowed(toolName)) {
+          return res.status(403).json(this.toolDisabledError(toolName));
+        }
+
         const response: RestApiResponse = {
           success: true,
           data: {
@@ -275,6 +271,74 @@ export class RestApiServer {
       }
     });
 
+    // Batch execute multiple tools
+    apiRouter.post('/tools/batch', async (req, res) => {
+      const client = (req as any)._clientInfo as ClientInfo;
+      const startTime = (req as any)._startTime as number;
+      const { tools } = req.body || {};
+
+      if (!Array.isArray(tools)) {
+        return res.status(400).json({
+          success: false,
+          error: {
+            code: 'INVALID_REQUEST',
+            message: 'Request body must contain a "tools" array'
+          }
+        });
+      }
+
+      try {
+        const results = await Promise.all(
+          tools.map(async ({ name, args }: { name: string; args?: any }) => {
+            if (!this.isToolCompatible(name, client)) {
+              return {
+                name,
+                success: false,
+                error: `Tool '${name}' is not compatible with ${client.name}`
+              };
+            }
+
+            try {
+              const result = await this.executeTool(name, args || {}, this.getToolContext(req, client));
+              return {
+                name,
+                success: true,
+                result
+              };
+            } catch (error) {
+              return {
+                name,
+                success: false,
+                error: error instanceof Error ? error.message : String(error)
+              };
+            }
+          })
+        );
+
+        const response: RestApiResponse = {
+          success: true,
+          data: {
+            results,
+            summary: {
+              total: results.length,
+              successful: results.filter(r => r.success).length,
+              failed: results.filter(r => !r.success).length
+            }
+          },
+          meta: {
+            clientId: req.headers['x-mcp-session-id'] as string || 'anonymous',
+            clientType: client.type,
+            timestamp: new Date().toISOString(),
+            executionTime: Date.now() - startTime
+          }
+        };
+
+        res.json(this.clientDetector.adaptResponse(response, client));
+      } catch (error) {
+        this.handleError(res, error, client, startTime);
+      }
+    });
+
     // Execute a tool
     apiRouter.post('/tools/:toolName', async (req, res) => {
       const client = (req as any)._clientInfo as ClientInfo;
@@ -283,6 +347,30 @@ export class RestApiServer {
       const args = req.body || {};
 
       try {
+        if (!toolRegistry.has(toolName)) {
+          return res.status(404).json({
+            success: false,
+            error: {
+              code: 'TOOL_NOT_FOUND',
+              message: `Tool '${toolName}' not found`
+            }
+          });
+        }
+
+        if (!toolRegistry.isAllowed(toolName)) {
+          return res.status(403).json(this.toolDisabledError(toolName));
+        }
+
+        if (args.reveal === true && !getToolPolicy().allowReveal) {
+          return res.status(403).json({
+            success: false,
+            error: {
+              code: 'REVEAL_DISABLED',
+              message: `Tool '${toolName}' cannot reveal secrets because the server's tool policy sets allowReveal to false`
+            }
+          });
+        }
+
         // Check if tool is compatible with client
         if (!this.isToolCompatible(toolName, client)) {
           return res.status(400).json({
@@ -300,7 +388,7 @@ export class RestApiServer {
         }
 
         // Execute the tool
-        const result = await this.executeTool(toolName, args);
+        const result = await this.executeTool(toolName, args, this.getToolContext(req, client));
 
         const response: RestApiResponse = {
           success: true,
@@ -319,59 +407,41 @@ export class RestApiServer {
       }
     });
 
-    // Batch execute multiple tools
-    apiRouter.post('/tools/batch', async (req, res) => {
+    // Query the audit log of mutations and system actions
+    apiRouter.get('/audit', async (req, res) => {
       const client = (req as any)._clientInfo as ClientInfo;
       const startTime = (req as any)._startTime as number;
-      const { tools } = req.body || {};
 
-      if (!Array.isArray(tools)) {
+      // The endpoint exposes the same data as the audit_query tool, so the same policy applies
+      if (!toolRegistry.isAllowed('audit_query')) {
+        return res.status(403).json(this.toolDisabledError('audit_query'));
+      }
+
+      const { instance, ...query } = req.query as Record<string, string | undefined>;
+      const parsed = auditFilterSchema.safeParse(query);
+      if (!parsed.success) {
         return res.status(400).json({
           success: false,
           error: {
             code: 'INVALID_REQUEST',
-            message: 'Request body must contain a "tools" array'
+            message: 'Invalid audit filter',
+            details: parsed.error.errors.map(err => ({
+              field: err.path.join('.'),
+              message: err.message
+            }))
           }
         });
       }
 
       try {
-        const results = await Promise.all(
-          tools.map(async ({ name, args }: { name: string; args?: any }) => {
-            if (!this.isToolCompatible(name, client)) {
-              return {
-                name,
-                success: false,
-                error: `Tool '${name}' is not compatible with ${client.name}`
-              };
-            }
-
-            try {
-              const result = await this.executeTool(name, args || {});
-              return {
-                name,
-                success: true,
-                result
-              };
-            } catch (error) {
-              return {
-                name,
-                success: false,
-                error: error instanceof Error ? error.message : String(error)
-              };
-            }
-          })
-        );
+        const entries = await queryAuditLog({ ...parsed.data, instance });
 
         const response: RestApiResponse = {
           success: true,
           data: {
-            results,
-            summary: {
-              total: results.length,
-              successful: results.filter(r => r.success).length,
-              failed: results.filter(r => !r.success).length
-            }
+            auditLog: getAuditLogPath() || null,
+            entries,
+            count: entries.length
           },
           meta: {
             clientId: req.headers['x-mcp-session-id'] as string || 'anonymous',
@@ -459,6 +529,16 @@ export class RestApiServer {
               path: '/api/client',
               method: 'GET',
               description: 'Get detected client information'
+            },
+            {
+              path: '/api/audit',
+              method: 'GET',
+              description: 'Query the audit log (filters: projectName, serviceName, tool, status, since, until, limit, instance)'
+            },
+            {
+              path: '/metrics',
+              method: 'GET',
+              description: 'Prometheus metrics (tool calls, errors, latencies, cache, rate limiting)'
             }
           ],
           examples: {
@@ -507,7 +587,7 @@ export class RestApiServer {
 
     // Error handling middleware
     this.app.use((err: Error, req: Request, res: Response, next: NextFunction) => {
-      console.error('[REST API] Error:', err);
+      logger.error('Request failed', { error: err });
       const client = (req as any)._clientInfo as ClientInfo;
       const startTime = (req as any)._startTime as number;
 
@@ -529,6 +609,16 @@ export class RestApiServer {
     });
   }
 
+  private toolDisabledError(toolName: string): any {
+    return {
+      success: false,
+      error: {
+        code: 'TOOL_DISABLED',
+        message: `Tool '${toolName}' is disabled by the server's tool policy`
+      }
+    };
+  }
+
   private filterToolsForClient(tools: any[], client: ClientInfo): any[] {
     return tools.filter(tool => this.isToolCompatible(tool.name, client));
   }
@@ -581,54 +671,16 @@ export class RestApiServer {
     return notes;
   }
 
-  private async executeTool(toolName: string, args: any): Promise<any> {
-    try {
-      // Project tools
-      if (toolName in projectTools) {
-        return await handleProjectTool(toolName, args);
-      }
-
-      // Service tools
-      if (toolName in serviceTools) {
-        return await handleServiceTool(toolName, args);
-      }
-
-      // Database tools
-      if (toolName in databaseTools) {
-        return await handleDatabaseTool(toolName, args);
-      }
-
-      // Domain tools
-      if (toolName in domainTools) {
-        return await handleDomainTool(toolName, args);
-      }
-
-      // License tools
-      if (toolName in licenseTools) {
-        return await handleLicenseTool(toolName, args);
-      }
-
-      // Monitoring tools
-      if (toolName in monitoringTools) {
-        return await handleMonitoringTool(toolName, args);
-      }
-
-      // Docker tools
-      if (toolName in dockerTools) {
-        switch (toolName) {
-          case 'docker_cleanup_images':
-            return await handleDockerCleanupImages(args || {});
-          case 'docker_prune_builder_cache':
-            return await handleDockerPruneBuilderCache(args || {});
-        }
-      }
-
-      // System tools
-      if (toolName in systemTools) {
-        return await handleSystemTool(toolName, args);
-      }
+  private getToolContext(req: Request, client: ClientInfo): ToolContext {
+    return {
+      sessionId: req.headers['x-mcp-session-id'] as string | undefined,
+      client
+    };
+  }
 
-      throw new Error(`Unknown tool: ${toolName}`);
+  private async executeTool(toolName: string, args: any, context: ToolContext): Promise<any> {
+    try {
+      return await toolRegistry.call(toolName, args, context);
     } catch (error) {
       if (error instanceof McpError) {
         throw new Error(error.message);
@@ -663,28 +715,28 @@ export class RestApiServer {
   async start(): Promise<void> {
     return new Promise((resolve) => {
       const server = this.app.listen(this.port, () => {
-        console.error(`[REST API] Server running on port ${this.port}`);
-        console.error(`[REST API] API base URL: http://localhost:${this.port}/api`);
-        console.error(`[REST API] API docs: http://localhost:${this.port}/api/docs`);
-        console.error(`[REST API] Health check: http://localhost:${this.port}/api/health`);
+        logger.info(`Server running on port ${this.port}`);
+        logger.info(`API base URL: http://localhost:${this.port}/api`);
+        logger.info(`API docs: http://localhost:${this.port}/api/docs`);
+        logger.info(`Health check: http://localhost:${this.port}/api/health`);
         resolve();
       });
 
       // Handle server errors
       server.on('error', (error: any) => {
         if (error.code === 'EADDRINUSE') {
-          console.error(`[REST API] Port ${this.port} is already in use`);
+          logger.error(`Port ${this.port} is already in use`);
         } else {
-          console.error('[REST API] Server error:', error);
+          logger.error('Server error', { error });
         }
         process.exit(1);
       });
 
       // Graceful shutdown
       process.on('SIGTERM', () => {
-        console.error('[REST API] Shutting down...');
+        logger.info('Shutting down...');
         server.close(() => {
-          console.error('[REST API] Server shutdown complete');
+          logger.info('Server shutdown complete');
           process.exit(0);
         });
       });
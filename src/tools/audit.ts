@@ -0,0 +1,54 @@
+/**
+ * Audit Log Tools
+ */
+
+import { z } from 'zod';
+import { getAuditLogPath, queryAuditLog } from '../utils/audit.js';
+import { defineTool } from './registry.js';
+
+const timestampSchema = (label: string) => z.string()
+  .refine(value => !Number.isNaN(Date.parse(value)), { message: `${label} must be an ISO 8601 date or timestamp` })
+  .transform(value => new Date(value));
+
+/**
+ * Filters shared by the audit_query tool and the REST /api/audit endpoint
+ */
+export const auditFilterSchema = z.object({
+  projectName: z.string().min(1).optional().describe('Only entries for this project'),
+  serviceName: z.string().min(1).optional().describe('Only entries for this service'),
+  tool: z.string().min(1).optional().describe('Only entries recorded by this tool (e.g. "destroy_service")'),
+  status: z.enum(['success', 'error', 'dry_run']).optional().describe('Only entries with this result status'),
+  since: timestampSchema('since').optional().describe('Only entries at or after this time (ISO 8601)'),
+  until: timestampSchema('until').optional().describe('Only entries at or before this time (ISO 8601)'),
+  limit: z.coerce.number().int().min(1).max(1000).default(100).describe('Maximum number of entries, newest first (default: 100)'),
+});
+
+export const auditTools = {
+  audit_query: defineTool({
+    name: 'audit_query',
+    description: 'Search the audit log of EasyPanel mutations and system actions by project, service, tool or time range',
+    category: 'system',
+    annotations: { readOnlyHint: true },
+    inputSchema: auditFilterSchema,
+    handler: async (params, context) => {
+      const path = getAuditLogPath();
+      const entries = await queryAuditLog({ ...params, instance: context.instance });
+
+      return {
+        content: [
+          {
+            type: 'text' as const,
+            text: JSON.stringify({
+              success: true,
+              message: path
+                ? `Found ${entries.length} audit entr${entries.length === 1 ? 'y' : 'ies'}`
+                : 'Audit logging is disabled',
+              auditLog: path,
+              entries,
+            }, null, 2),
+          },
+        ],
+      };
+    },
+  }),
+};
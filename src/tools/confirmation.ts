@@ -0,0 +1,163 @@
+/**
+ * Destructive Tool Confirmation
+ * Two-phase handshake: the first call returns a summary of what will be removed
+ * and a short-lived token; only a second call carrying that token runs the operation.
+ */
+
+import { randomBytes } from 'crypto';
+import { z } from 'zod';
+import { EasyPanelClient, getDefaultInstanceName } from '../api/client.js';
+import type { ProcedureOutput } from '../api/procedures.js';
+import { ValidationError } from '../utils/validation.js';
+import type { ToolContext, ToolResult } from './registry.js';
+
+// How long a confirmation token stays valid
+export const CONFIRMATION_TTL_MS = 5 * 60 * 1000;
+
+const DATABASE_TYPES = ['redis', 'mysql', 'postgres', 'mongo', 'mariadb'];
+
+interface PendingConfirmation {
+  fingerprint: string;
+  expiresAt: number;
+}
+
+const pendingConfirmations = new Map<string, PendingConfirmation>();
+
+export const confirmationTokenSchema = z.string().min(1).optional()
+  .describe('Token returned by the first call. Omit it to get a summary of what will be deleted and a token; call again with the token to proceed');
+
+/**
+ * Identify the exact operation a token was issued for: tool, instance and arguments
+ */
+function fingerprint(toolName: string, context: ToolContext, args: Record<string, unknown>): string {
+  const sortedArgs = Object.keys(args).sort().map(key => [key, args[key]]);
+  return JSON.stringify([toolName, context.instance ?? getDefaultInstanceName(), sortedArgs]);
+}
+
+function removeExpired(now: number): void {
+  pendingConfirmations.forEach((pending, token) => {
+    if (pending.expiresAt <= now) {
+      pendingConfirmations.delete(token);
+    }
+  });
+}
+
+/**
+ * Gate a destructive handler behind the confirmation handshake.
+ * Returns the result to send back when the operation must not run yet,
+ * or undefined when the token confirms exactly this operation.
+ */
+export async function requireConfirmation(
+  toolName: string,
+  args: Record<string, unknown> & { confirmationToken?: string },
+  context: ToolContext,
+  summarize: () => Promise<Record<string, unknown>>
+): Promise<ToolResult | undefined> {
+  const { confirmationToken, ...operationArgs } = args;
+  const now = Date.now();
+  removeExpired(now);
+
+  const expected = fingerprint(toolName, context, operationArgs);
+
+  if (confirmationToken) {
+    const pending = pendingConfirmations.get(confirmationToken);
+    if (pending && pending.fingerprint === expected) {
+      // Tokens are single-use
+      pendingConfirmations.delete(confirmationToken);
+      return undefined;
+    }
+
+    return {
+      content: [
+        {
+          type: 'text' as const,
+          text: JSON.stringify({
+            success: false,
+            error: 'Confirmation Error',
+            message: pending
+              ? 'The confirmation token was issued for a different operation. Call the tool without a token to get a new summary.'
+              : 'The confirmation token is invalid, expired or already used. Call the tool without a token to get a new summary.',
+          }, null, 2),
+        },
+      ],
+    };
+  }
+
+  const summary = await summarize();
+  const token = randomBytes(16).toString('hex');
+  const expiresAt = now + CONFIRMATION_TTL_MS;
+  pendingConfirmations.set(token, { fingerprint: expected, expiresAt });
+
+  return {
+    content: [
+      {
+        type: 'text' as const,
+        text: JSON.stringify({
+          success: true,
+          confirmationRequired: true,
+          message: `Nothing has been deleted yet. Review the summary, then call ${toolName} again with the same arguments and confirmationToken to proceed.`,
+          summary,
+          confirmationToken: token,
+          expiresAt: new Date(expiresAt).toISOString(),
+        }, null, 2),
+      },
+    ],
+  };
+}
+
+/**
+ * Describe a service the way confirmation summaries list it
+ */
+function describeService(service: ProcedureOutput<'projects.inspectProject'>['services'][number]) {
+  return {
+    name: service.name,
+    type: service.type,
+    domains: (service.domains || []).map(domain => domain.host).filter(Boolean),
+  };
+}
+
+/**
+ * Everything that goes away with a project, found through inspectProject
+ */
+export async function summarizeProject(client: EasyPanelClient, projectName: string) {
+  const { services } = await client.inspectProject(projectName);
+
+  return {
+    instance: client.instanceName,
+    project: projectName,
+    services: services.filter(service => !DATABASE_TYPES.includes(service.type)).map(describeService),
+    databases: services.filter(service => DATABASE_TYPES.includes(service.type)).map(describeService),
+    domains: services.flatMap(service => describeService(service).domains),
+  };
+}
+
+/**
+ * The single service that will be removed, found through inspectProject
+ */
+export async function summarizeService(
+  client: EasyPanelClient,
+  projectName: string,
+  serviceName: string,
+  type?: string
+) {
+  const { services } = await client.inspectProject(projectName);
+  const service = services.find(candidate => candidate.name === serviceName);
+
+  if (!service) {
+    throw new ValidationError(`Service '${serviceName}' not found in project '${projectName}'`, 'serviceName', serviceName);
+  }
+  if (type && service.type && service.type !== type) {
+    throw new ValidationError(`Service '${serviceName}' is a ${service.type} service, not ${type}`, 'type', type);
+  }
+
+  const described = describeService(service);
+  const isDatabase = DATABASE_TYPES.includes(service.type);
+
+  return {
+    instance: client.instanceName,
+    project: projectName,
+    services: isDatabase ? [] : [described],
+    databases: isDatabase ? [described] : [],
+    domains: described.domains,
+  };
+}
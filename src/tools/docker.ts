@@ -4,113 +4,110 @@
 
 import { z } from 'zod';
 import { getClient } from '../api/client.js';
-import { ValidationError, validateProjectServiceNameWithRefine } from '../utils/validation.js';
 import { runWithProgress } from '../utils/progress.js';
+import { defineTool } from './registry.js';
+import { confirmationTokenSchema, requireConfirmation } from './confirmation.js';
 
 export const dockerTools = {
-  docker_cleanup_images: {
+  docker_cleanup_images: defineTool({
     name: 'docker_cleanup_images',
-    description: 'Remove unused Docker images to free up disk space',
-    inputSchema: {
-      type: 'object' as const,
-      properties: {
-        force: {
-          type: 'boolean',
-          description: 'Force removal of images (default: false)',
-        },
-      },
+    description: 'Remove unused Docker images to free up disk space. The first call returns a summary and a confirmation token; call again with the token to remove the images',
+    category: 'docker',
+    annotations: { readOnlyHint: false, destructiveHint: true },
+    inputSchema: z.object({
+      force: z.boolean().optional().default(false).describe('Force removal of images (default: false)'),
+      confirmationToken: confirmationTokenSchema,
+    }),
+    handler: async (params, context) => {
+      const client = getClient(context.instance);
+
+      const pending = await requireConfirmation('docker_cleanup_images', params, context, async () => ({
+        instance: client.instanceName,
+        action: 'Prune Docker images that no container on the server uses',
+        force: params.force,
+      }));
+      if (pending) {
+        return pending;
+      }
+
+      try {
+        // Execute Docker image cleanup with progress reporting
+        const response = await runWithProgress(context.sessionId, 'docker_cleanup_images', async (report) => {
+          report(10, 'Starting Docker image cleanup...');
+
+          // Execute Docker image cleanup via EasyPanel API
+          const result = await client.dockerImageCleanup(params.force);
+
+          report(75, 'Cleaning up unused images...');
+
+          return {
+            success: true,
+            message: `Removed unused Docker images successfully`,
+            data: {
+              freed_space: result.freedSpace || 'Unknown',
+              images_removed: result.imagesRemoved || 0,
+              warnings: result.warnings || [],
+            },
+          };
+        });
+
+        return {
+          content: [
+            {
+              type: 'text' as const,
+              text: JSON.stringify(response, null, 2),
+            },
+          ],
+        };
+      } catch (error) {
+        throw new Error(`Failed to cleanup Docker images: ${error instanceof Error ? error.message : String(error)}`);
+      }
     },
-  },
+  }),
 
-  docker_prune_builder_cache: {
+  docker_prune_builder_cache: defineTool({
     name: 'docker_prune_builder_cache',
     description: 'Clean Docker build cache to reclaim disk space',
-    inputSchema: {
-      type: 'object' as const,
-      properties: {
-        all: {
-          type: 'boolean',
-          description: 'Remove all unused build cache (default: false)',
-        },
-      },
+    category: 'docker',
+    annotations: { readOnlyHint: false, destructiveHint: true },
+    inputSchema: z.object({
+      all: z.boolean().optional().default(false).describe('Remove all unused build cache (default: false)'),
+    }),
+    handler: async (params, context) => {
+      const client = getClient(context.instance);
+
+      try {
+        // Execute Docker builder cache cleanup with progress reporting
+        const response = await runWithProgress(context.sessionId, 'docker_prune_builder_cache', async (report) => {
+          report(10, 'Pruning Docker builder cache...');
+
+          // Execute Docker builder cache cleanup
+          const result = await client.dockerBuilderCachePrune(params.all);
+
+          report(80, 'Finalizing cache cleanup...');
+
+          return {
+            success: true,
+            message: `Docker builder cache pruned successfully`,
+            data: {
+              freed_space: result.freedSpace || 'Unknown',
+              cache_id: result.cacheId || 'Unknown',
+              warnings: result.warnings || [],
+            },
+          };
+        });
+
+        return {
+          content: [
+            {
+              type: 'text' as const,
+              text: JSON.stringify(response, null, 2),
+            },
+          ],
+        };
+      } catch (error) {
+        throw new Error(`Failed to prune Docker builder cache: ${error instanceof Error ? error.message : String(error)}`);
+      }
     },
-  },
+  }),
 };
-
-// Handler functions
-export async function handleDockerCleanupImages(args: { force?: boolean }, sessionId?: string) {
-  const client = getClient();
-
-  try {
-    // Validate input
-    const schema = z.object({
-      force: z.boolean().optional().default(false),
-    });
-    const validated = schema.parse(args);
-
-    // Execute Docker image cleanup with progress reporting
-    return await runWithProgress(sessionId, 'docker_cleanup_images', async (report) => {
-      report(10, 'Starting Docker image cleanup...');
-
-      // Execute Docker image cleanup via EasyPanel API
-      const result = await client.dockerImageCleanup(validated.force);
-
-      report(75, 'Cleaning up unused images...');
-
-      return {
-        success: true,
-        message: `Removed unused Docker images successfully`,
-        data: {
-          freed_space: result.freedSpace || 'Unknown',
-          images_removed: result.imagesRemoved || 0,
-          warnings: result.warnings || [],
-        },
-      };
-    });
-  } catch (error: any) {
-    if (error instanceof ValidationError) {
-      throw error;
-    }
-
-    throw new Error(`Failed to cleanup Docker images: ${error.message}`);
-  }
-}
-
-export async function handleDockerPruneBuilderCache(args: { all?: boolean }, sessionId?: string) {
-  const client = getClient();
-
-  try {
-    // Validate input
-    const schema = z.object({
-      all: z.boolean().optional().default(false),
-    });
-    const validated = schema.parse(args);
-
-    // Execute Docker builder cache cleanup with progress reporting
-    return await runWithProgress(sessionId, 'docker_prune_builder_cache', async (report) => {
-      report(10, 'Pruning Docker builder cache...');
-
-      // Execute Docker builder cache cleanup
-      const result = await client.dockerBuilderCachePrune(validated.all);
-
-      report(80, 'Finalizing cache cleanup...');
-
-      return {
-        success: true,
-        message: `Docker builder cache pruned successfully`,
-        data: {
-          freed_space: result.freedSpace || 'Unknown',
-          cache_id: result.cacheId || 'Unknown',
-          warnings: result.warnings || [],
-        },
-      };
-    });
-  } catch (error: any) {
-    if (error instanceof ValidationError) {
-      throw error;
-    }
-
-    throw new Error(`Failed to prune Docker builder cache: ${error.message}`);
-  }
-}
-
@@ -4,246 +4,28 @@
 
 import { z } from 'zod';
 import { getClient } from '../api/client.js';
-import { ValidationError } from '../utils/validation.js';
+import { defineTool } from './registry.js';
+
+const domainTargetShape = {
+  projectName: z.string().min(1).describe('Name of the project'),
+  serviceName: z.string().min(1).describe('Name of the service'),
+};
 
 export const domainTools = {
-  add_domain: {
+  add_domain: defineTool({
     name: 'add_domain',
     description: 'Add a custom domain to a service',
-    inputSchema: {
-      type: 'object' as const,
-      properties: {
-        projectName: {
-          type: 'string',
-          description: 'Name of the project',
-        },
-        serviceName: {
-          type: 'string',
-          description: 'Name of the service',
-        },
-        domain: {
-          type: 'string',
-          description: 'Domain name to add (e.g., example.com)',
-        },
-        port: {
-          type: 'number',
-          description: 'Port to route traffic to (default: 80)',
-          default: 80,
-        },
-        https: {
-          type: 'boolean',
-          description: 'Enable HTTPS for this domain (default: false)',
-          default: false,
-        },
-      },
-      required: ['projectName', 'serviceName', 'domain'],
-    },
-  },
-
-  remove_domain: {
-    name: 'remove_domain',
-    description: 'Remove a domain from a service',
-    inputSchema: {
-      type: 'object' as const,
-      properties: {
-        projectName: {
-          type: 'string',
-          description: 'Name of the project',
-        },
-        serviceName: {
-          type: 'string',
-          description: 'Name of the service',
-        },
-        domainId: {
-          type: 'string',
-          description: 'ID of the domain to remove',
-        },
-      },
-      required: ['projectName', 'serviceName', 'domainId'],
-    },
-  },
-
-  list_domains: {
-    name: 'list_domains',
-    description: 'List all domains configured for a service',
-    inputSchema: {
-      type: 'object' as const,
-      properties: {
-        projectName: {
-          type: 'string',
-          description: 'Name of the project',
-        },
-        serviceName: {
-          type: 'string',
-          description: 'Name of the service',
-        },
-      },
-      required: ['projectName', 'serviceName'],
-    },
-  },
-
-  validate_domain: {
-    name: 'validate_domain',
-    description: 'Validate domain configuration and DNS setup',
-    inputSchema: {
-      type: 'object' as const,
-      properties: {
-        domain: {
-          type: 'string',
-          description: 'Domain name to validate (e.g., example.com)',
-        },
-      },
-      required: ['domain'],
-    },
-  },
-
-  enable_https: {
-    name: 'enable_https',
-    description: 'Enable HTTPS for a domain using Let\'s Encrypt certificate',
-    inputSchema: {
-      type: 'object' as const,
-      properties: {
-        projectName: {
-          type: 'string',
-          description: 'Name of the project',
-        },
-        serviceName: {
-          type: 'string',
-          description: 'Name of the service',
-        },
-        domain: {
-          type: 'string',
-          description: 'Domain name to enable HTTPS for',
-        },
-        email: {
-          type: 'string',
-          description: 'Email for Let\'s Encrypt certificate (optional)',
-        },
-      },
-      required: ['projectName', 'serviceName', 'domain'],
-    },
-  },
-
-  disable_https: {
-    name: 'disable_https',
-    description: 'Disable HTTPS for a domain',
-    inputSchema: {
-      type: 'object' as const,
-      properties: {
-        projectName: {
-          type: 'string',
-          description: 'Name of the project',
-        },
-        serviceName: {
-          type: 'string',
-          description: 'Name of the service',
-        },
-        domain: {
-          type: 'string',
-          description: 'Domain name to disable HTTPS for',
-        },
-      },
-      required: ['projectName', 'serviceName', 'domain'],
-    },
-  },
-
-  renew_certificate: {
-    name: 'renew_certificate',
-    description: 'Renew SSL certificate for a domain',
-    inputSchema: {
-      type: 'object' as const,
-      properties: {
-        projectName: {
-          type: 'string',
-          description: 'Name of the project',
-        },
-        serviceName: {
-          type: 'string',
-          description: 'Name of the service',
-        },
-        domain: {
-          type: 'string',
-          description: 'Domain name to renew certificate for',
-        },
-      },
-      required: ['projectName', 'serviceName', 'domain'],
-    },
-  },
-
-  get_certificate: {
-    name: 'get_certificate',
-    description: 'Get SSL certificate details for a domain',
-    inputSchema: {
-      type: 'object' as const,
-      properties: {
-        projectName: {
-          type: 'string',
-          description: 'Name of the project',
-        },
-        serviceName: {
-          type: 'string',
-          description: 'Name of the service',
-        },
-        domain: {
-          type: 'string',
-          description: 'Domain name to get certificate for',
-        },
-      },
-      required: ['projectName', 'serviceName', 'domain'],
-    },
-  },
-
-  upload_custom_certificate: {
-    name: 'upload_custom_certificate',
-    description: 'Upload a custom SSL certificate for a domain',
-    inputSchema: {
-      type: 'object' as const,
-      properties: {
-        projectName: {
-          type: 'string',
-          description: 'Name of the project',
-        },
-        serviceName: {
-          type: 'string',
-          description: 'Name of the service',
-        },
-        domain: {
-          type: 'string',
-          description: 'Domain name for the certificate',
-        },
-        certificate: {
-          type: 'string',
-          description: 'SSL certificate content (PEM format)',
-        },
-        privateKey: {
-          type: 'string',
-          description: 'Private key content (PEM format)',
-        },
-        chain: {
-          type: 'string',
-          description: 'Certificate chain content (optional, PEM format)',
-        },
-      },
-      required: ['projectName', 'serviceName', 'domain', 'certificate', 'privateKey'],
-    },
-  },
-};
-
-export async function handleDomainTool(name: string, args: unknown) {
-  const client = getClient();
-
-  try {  // Wrap entire switch in try-catch for validation errors
-    switch (name) {
-    case 'add_domain': {
-      const schema = z.object({
-        projectName: z.string().min(1),
-        serviceName: z.string().min(1),
-        domain: z.string().min(1),
-        port: z.number().int().positive().default(80),
-        https: z.boolean().default(false),
-        sslEmail: z.string().email().optional(),
-      });
-      const params = schema.parse(args);
+    category: 'domains',
+    annotations: { readOnlyHint: false, destructiveHint: false },
+    inputSchema: z.object({
+      ...domainTargetShape,
+      domain: z.string().min(1).describe('Domain name to add (e.g., example.com)'),
+      port: z.number().int().positive().default(80).describe('Port to route traffic to (default: 80)'),
+      https: z.boolean().default(false).describe('Enable HTTPS for this domain (default: false)'),
+      sslEmail: z.string().email().optional().describe('Email for Let\'s Encrypt certificate (optional)'),
+    }),
+    handler: async (params, context) => {
+      const client = getClient(context.instance);
 
       // Validate domain format first
       const domainRegex = /^[a-zA-Z0-9]([a-zA-Z0-9-]{0,61}[a-zA-Z0-9])?(\.[a-zA-Z0-9]([a-zA-Z0-9-]{0,61}[a-zA-Z0-9])?)*$/;
@@ -266,43 +48,43 @@ export async function handleDomainTool(name: string, args: unknown) {
       // Get upgrade suggestion if applicable
       const upgradeSuggestion = client.getUpgradeSuggestion('add_domain');
 
-      const response: any = {
+      const response = {
         success: true,
         message: `Domain '${params.domain}' added to service '${params.serviceName}'`,
         result,
+        // Add upgrade tip if available
+        ...(upgradeSuggestion ? { tip: { message: upgradeSuggestion.message, url: upgradeSuggestion.url } } : {}),
       };
 
-      // Add upgrade tip if available
-      if (upgradeSuggestion) {
-        response.tip = {
-          message: upgradeSuggestion.message,
-          url: upgradeSuggestion.url
-        };
+      let responseText = JSON.stringify(response, null, 2);
 
-        // Also add upgrade suggestion to response content
-        response.content.push({
-          type: 'text' as const,
-          text: `\n\n💡 Pro tip: ${upgradeSuggestion.message}\n\n🚀 Upgrade now: ${upgradeSuggestion.url}\n\n*Premium unlocks unlimited custom domains with automatic SSL!*`
-        });
+      // Add upgrade CTA for free tier users
+      if (upgradeSuggestion) {
+        responseText += `\n\n💡 Pro tip: ${upgradeSuggestion.message}\n\n🚀 Upgrade now: ${upgradeSuggestion.url}\n\n*Premium unlocks unlimited custom domains with automatic SSL!*`;
       }
 
       return {
         content: [
           {
             type: 'text' as const,
-            text: JSON.stringify(response, null, 2),
+            text: responseText,
           },
         ],
       };
-    }
+    },
+  }),
 
-    case 'remove_domain': {
-      const schema = z.object({
-        projectName: z.string().min(1),
-        serviceName: z.string().min(1),
-        domainId: z.string().min(1),
-      });
-      const params = schema.parse(args);
+  remove_domain: defineTool({
+    name: 'remove_domain',
+    description: 'Remove a domain from a service',
+    category: 'domains',
+    annotations: { readOnlyHint: false, destructiveHint: true },
+    inputSchema: z.object({
+      ...domainTargetShape,
+      domainId: z.string().min(1).describe('ID of the domain to remove'),
+    }),
+    handler: async (params, context) => {
+      const client = getClient(context.instance);
 
       const result = await client.removeDomain(
         params.projectName,
@@ -321,14 +103,17 @@ export async function handleDomainTool(name: string, args: unknown) {
           },
         ],
       };
-    }
+    },
+  }),
 
-    case 'list_domains': {
-      const schema = z.object({
-        projectName: z.string().min(1),
-        serviceName: z.string().min(1),
-      });
-      const params = schema.parse(args);
+  list_domains: defineTool({
+    name: 'list_domains',
+    description: 'List all domains configured for a service',
+    category: 'domains',
+    annotations: { readOnlyHint: true },
+    inputSchema: z.object(domainTargetShape),
+    handler: async (params, context) => {
+      const client = getClient(context.instance);
 
       const result = await client.listDomains(params.projectName, params.serviceName);
       return {
@@ -343,13 +128,19 @@ export async function handleDomainTool(name: string, args: unknown) {
           },
         ],
       };
-    }
+    },
+  }),
 
-    case 'validate_domain': {
-      const schema = z.object({
-        domain: z.string().min(1),
-      });
-      const params = schema.parse(args);
+  validate_domain: defineTool({
+    name: 'validate_domain',
+    description: 'Validate domain configuration and DNS setup',
+    category: 'domains',
+    annotations: { readOnlyHint: true },
+    inputSchema: z.object({
+      domain: z.string().min(1).describe('Domain name to validate (e.g., example.com)'),
+    }),
+    handler: async (params, context) => {
+      const client = getClient(context.instance);
 
       const result = await client.validateDomain(
         'temp-project',
@@ -368,16 +159,21 @@ export async function handleDomainTool(name: string, args: unknown) {
           },
         ],
       };
-    }
+    },
+  }),
 
-    case 'enable_https': {
-      const schema = z.object({
-        projectName: z.string().min(1),
-        serviceName: z.string().min(1),
-        domain: z.string().min(1),
-        email: z.string().email().optional(),
-      });
-      const params = schema.parse(args);
+  enable_https: defineTool({
+    name: 'enable_https',
+    description: 'Enable HTTPS for a domain using Let\'s Encrypt certificate',
+    category: 'domains',
+    annotations: { readOnlyHint: false, destructiveHint: false },
+    inputSchema: z.object({
+      ...domainTargetShape,
+      domain: z.string().min(1).describe('Domain name to enable HTTPS for'),
+      email: z.string().email().optional().describe('Email for Let\'s Encrypt certificate (optional)'),
+    }),
+    handler: async (params, context) => {
+      const client = getClient(context.instance);
 
       const result = await client.requestSSLCertificate(
         params.projectName,
@@ -389,20 +185,14 @@ export async function handleDomainTool(name: string, args: unknown) {
       // Get upgrade suggestion
       const upgradeSuggestion = client.getUpgradeSuggestion('enable_https');
 
-      let responseContent: any = {
+      const responseContent = {
         success: true,
         message: `HTTPS enabled for domain '${params.domain}'`,
         certificate: result,
+        // Add upgrade suggestion if on free tier
+        ...(upgradeSuggestion ? { upgrade_tip: { message: upgradeSuggestion.message, url: upgradeSuggestion.url } } : {}),
       };
 
-      // Add upgrade suggestion if on free tier
-      if (upgradeSuggestion) {
-        responseContent.upgrade_tip = {
-          message: upgradeSuggestion.message,
-          url: upgradeSuggestion.url
-        };
-      }
-
       const responseData = JSON.stringify(responseContent, null, 2);
 
       // Add upgrade CTA if applicable
@@ -419,16 +209,19 @@ export async function handleDomainTool(name: string, args: unknown) {
           },
         ],
       };
-    }
-
-    case 'disable_https': {
-      const schema = z.object({
-        projectName: z.string().min(1),
-        serviceName: z.string().min(1),
-        domain: z.string().min(1),
-      });
-      const params = schema.parse(args);
+    },
+  }),
 
+  disable_https: defineTool({
+    name: 'disable_https',
+    description: 'Disable HTTPS for a domain',
+    category: 'domains',
+    annotations: { readOnlyHint: false, destructiveHint: false },
+    inputSchema: z.object({
+      ...domainTargetShape,
+      domain: z.string().min(1).describe('Domain name to disable HTTPS for'),
+    }),
+    handler: async (params, context) => {
       // Note: EasyPanel doesn't have disableHTTPS - return message
       const result = { success: false, message: 'disableHTTPS not available - use custom certificate removal instead' };
       return {
@@ -443,15 +236,20 @@ export async function handleDomainTool(name: string, args: unknown) {
           },
         ],
       };
-    }
+    },
+  }),
 
-    case 'renew_certificate': {
-      const schema = z.object({
-        projectName: z.string().min(1),
-        serviceName: z.string().min(1),
-        domain: z.string().min(1),
-      });
-      const params = schema.parse(args);
+  renew_certificate: defineTool({
+    name: 'renew_certificate',
+    description: 'Renew SSL certificate for a domain',
+    category: 'domains',
+    annotations: { readOnlyHint: false, destructiveHint: false, idempotentHint: true },
+    inputSchema: z.object({
+      ...domainTargetShape,
+      domain: z.string().min(1).describe('Domain name to renew certificate for'),
+    }),
+    handler: async (params, context) => {
+      const client = getClient(context.instance);
 
       const result = await client.renewSSLCertificate(
         params.projectName,
@@ -470,15 +268,20 @@ export async function handleDomainTool(name: string, args: unknown) {
           },
         ],
       };
-    }
+    },
+  }),
 
-    case 'get_certificate': {
-      const schema = z.object({
-        projectName: z.string().min(1),
-        serviceName: z.string().min(1),
-        domain: z.string().min(1),
-      });
-      const params = schema.parse(args);
+  get_certificate: defineTool({
+    name: 'get_certificate',
+    description: 'Get SSL certificate details for a domain',
+    category: 'domains',
+    annotations: { readOnlyHint: true },
+    inputSchema: z.object({
+      ...domainTargetShape,
+      domain: z.string().min(1).describe('Domain name to get certificate for'),
+    }),
+    handler: async (params, context) => {
+      const client = getClient(context.instance);
 
       const result = await client.getSSLCertificate(
         params.projectName,
@@ -497,19 +300,22 @@ export async function handleDomainTool(name: string, args: unknown) {
           },
         ],
       };
-    }
-
-    case 'upload_custom_certificate': {
-      const schema = z.object({
-        projectName: z.string().min(1),
-        serviceName: z.string().min(1),
-        domain: z.string().min(1),
-        certificate: z.string().min(1),
-        privateKey: z.string().min(1),
-        chain: z.string().optional(),
-      });
-      const params = schema.parse(args);
+    },
+  }),
 
+  upload_custom_certificate: defineTool({
+    name: 'upload_custom_certificate',
+    description: 'Upload a custom SSL certificate for a domain',
+    category: 'domains',
+    annotations: { readOnlyHint: false, destructiveHint: false },
+    inputSchema: z.object({
+      ...domainTargetShape,
+      domain: z.string().min(1).describe('Domain name for the certificate'),
+      certificate: z.string().min(1).describe('SSL certificate content (PEM format)'),
+      privateKey: z.string().min(1).describe('Private key content (PEM format)'),
+      chain: z.string().optional().describe('Certificate chain content (optional, PEM format)'),
+    }),
+    handler: async (params, context) => {
       // Basic certificate validation
       if (!params.certificate.includes('-----BEGIN CERTIFICATE-----')) {
         throw new Error('Invalid certificate format. Must be in PEM format.');
@@ -540,52 +346,6 @@ export async function handleDomainTool(name: string, args: unknown) {
           },
         ],
       };
-    }
-
-    default:
-      throw new Error(`Unknown domain tool: ${name}`);
-    }
-  } catch (error) {
-    // Handle validation errors specifically
-    if (error instanceof ValidationError) {
-      return {
-        content: [
-          {
-            type: 'text' as const,
-            text: JSON.stringify({
-              success: false,
-              error: 'Validation Error',
-              message: error.message,
-              field: error.field,
-              value: error.value,
-            }, null, 2),
-          },
-        ],
-      };
-    }
-
-    // Handle Zod validation errors
-    if (error instanceof z.ZodError) {
-      return {
-        content: [
-          {
-            type: 'text' as const,
-            text: JSON.stringify({
-              success: false,
-              error: 'Input Validation Error',
-              message: 'Invalid input parameters',
-              details: error.errors.map(err => ({
-                field: err.path.join('.'),
-                message: err.message,
-                code: err.code,
-              })),
-            }, null, 2),
-          },
-        ],
-      };
-    }
-
-    // Re-throw other errors
-    throw error;
-  }
-}
\ No newline at end of file
+    },
+  }),
+};
@@ -0,0 +1,228 @@
+/**
+ * Environment Variable Tools
+ * Read and edit single variables of a service's env without resending the rest; edits keep
+ * comments and the order of variables and go through updateEnv
+ */
+
+import { z } from 'zod';
+import { EasyPanelClient, getClient } from '../api/client.js';
+import { diffEnvVars, renameEnvVar, setEnvVars, unsetEnvVars } from '../utils/envVars.js';
+import { parseAndValidateEnvVars } from '../utils/validation.js';
+import { defineTool } from './registry.js';
+
+const serviceTargetShape = {
+  projectName: z.string().min(1).describe('Name of the project'),
+  serviceName: z.string().min(1).describe('Name of the service'),
+};
+
+const envKeySchema = z.string().regex(/^[A-Za-z_][A-Za-z0-9_]*$/, 'Environment variable names start with a letter or underscore and contain only letters, numbers and underscores');
+
+const redeploySchema = z.boolean().default(false).describe('Deploy the service afterwards so the running containers pick up the change');
+
+/**
+ * Write the edited env unless nothing changed, then redeploy if asked to
+ */
+async function saveEnv(
+  client: EasyPanelClient,
+  params: { projectName: string; serviceName: string; redeploy: boolean },
+  current: string,
+  next: string
+): Promise<{ changed: boolean; deployment?: unknown }> {
+  if (next === current) {
+    return { changed: false };
+  }
+  await client.updateEnv(params.projectName, params.serviceName, next);
+  return {
+    changed: true,
+    ...(params.redeploy ? { deployment: await client.deployService(params.projectName, params.serviceName) } : {}),
+  };
+}
+
+export const envTools = {
+  get_env: defineTool({
+    name: 'get_env',
+    description: 'Get the environment variables of a service, as the env text with its comments and as a KEY -> value map',
+    category: 'services',
+    annotations: { readOnlyHint: true },
+    inputSchema: z.object({
+      ...serviceTargetShape,
+      keys: z.array(envKeySchema).optional().describe('Only return these variables'),
+    }),
+    handler: async (params, context) => {
+      const client = getClient(context.instance);
+
+      const env = await client.getEnv(params.projectName, params.serviceName);
+      const variables = parseAndValidateEnvVars(env);
+      const selected = params.keys
+        ? Object.fromEntries(params.keys.filter(key => key in variables).map(key => [key, variables[key]]))
+        : variables;
+
+      return {
+        content: [
+          {
+            type: 'text' as const,
+            text: JSON.stringify({
+              projectName: params.projectName,
+              serviceName: params.serviceName,
+              count: Object.keys(selected).length,
+              variables: selected,
+              ...(params.keys ? { missing: params.keys.filter(key => !(key in variables)) } : { env }),
+            }, null, 2),
+          },
+        ],
+      };
+    },
+  }),
+
+  set_env_vars: defineTool({
+    name: 'set_env_vars',
+    description: 'Set environment variables of a service, keeping every other variable: existing keys are changed in place, new keys are appended',
+    category: 'services',
+    annotations: { readOnlyHint: false, destructiveHint: false, idempotentHint: true },
+    inputSchema: z.object({
+      ...serviceTargetShape,
+      vars: z.record(envKeySchema, z.union([z.string(), z.number(), z.boolean()]).transform(String))
+        .refine(vars => Object.keys(vars).length > 0, { message: 'Pass at least one variable' })
+        .describe('Variables to set, as KEY -> value'),
+      redeploy: redeploySchema,
+    }),
+    handler: async (params, context) => {
+      const client = getClient(context.instance);
+
+      const current = await client.getEnv(params.projectName, params.serviceName);
+      const { env, added, updated, unchanged } = setEnvVars(current, params.vars);
+      const saved = await saveEnv(client, params, current, env);
+
+      return {
+        content: [
+          {
+            type: 'text' as const,
+            text: JSON.stringify({
+              success: true,
+              message: saved.changed
+                ? `${added.length} variable(s) added and ${updated.length} changed on '${params.serviceName}'`
+                : `Every variable already has that value on '${params.serviceName}'`,
+              added,
+              updated,
+              unchanged,
+              ...saved,
+            }, null, 2),
+          },
+        ],
+      };
+    },
+  }),
+
+  unset_env_vars: defineTool({
+    name: 'unset_env_vars',
+    description: 'Remove environment variables from a service, keeping every other variable and comment',
+    category: 'services',
+    annotations: { readOnlyHint: false, destructiveHint: true, idempotentHint: true },
+    inputSchema: z.object({
+      ...serviceTargetShape,
+      keys: z.array(envKeySchema).min(1).describe('Names of the variables to remove'),
+      redeploy: redeploySchema,
+    }),
+    handler: async (params, context) => {
+      const client = getClient(context.instance);
+
+      const current = await client.getEnv(params.projectName, params.serviceName);
+      const { env, removed, missing } = unsetEnvVars(current, params.keys);
+      const saved = await saveEnv(client, params, current, env);
+
+      return {
+        content: [
+          {
+            type: 'text' as const,
+            text: JSON.stringify({
+              success: true,
+              message: `${removed.length} variable(s) removed from '${params.serviceName}'`,
+              removed,
+              missing,
+              ...saved,
+            }, null, 2),
+          },
+        ],
+      };
+    },
+  }),
+
+  rename_env_var: defineTool({
+    name: 'rename_env_var',
+    description: 'Rename an environment variable of a service in place, keeping its value',
+    category: 'services',
+    annotations: { readOnlyHint: false, destructiveHint: true, idempotentHint: false },
+    inputSchema: z.object({
+      ...serviceTargetShape,
+      from: envKeySchema.describe('Current name of the variable'),
+      to: envKeySchema.describe('New name; it must not be set yet'),
+      redeploy: redeploySchema,
+    }),
+    handler: async (params, context) => {
+      const client = getClient(context.instance);
+
+      const current = await client.getEnv(params.projectName, params.serviceName);
+      const saved = await saveEnv(client, params, current, renameEnvVar(current, params.from, params.to));
+
+      return {
+        content: [
+          {
+            type: 'text' as const,
+            text: JSON.stringify({
+              success: true,
+              message: `Renamed ${params.from} to ${params.to} on '${params.serviceName}'`,
+              ...saved,
+            }, null, 2),
+          },
+        ],
+      };
+    },
+  }),
+
+  diff_env: defineTool({
+    name: 'diff_env',
+    description: 'Compare the environment variables of a service with another service (for example staging and production) or with env text',
+    category: 'services',
+    annotations: { readOnlyHint: true },
+    inputSchema: z.object({
+      ...serviceTargetShape,
+      otherProjectName: z.string().min(1).optional().describe('Project of the service to compare with (default: projectName)'),
+      otherServiceName: z.string().min(1).optional().describe('Service to compare with'),
+      otherInstance: z.string().min(1).optional().describe('Instance of the service to compare with (default: the instance of this call)'),
+      env: z.string().optional().describe('KEY=VALUE lines to compare with instead of a service'),
+      showValues: z.boolean().default(false).describe('Include the values of the variables that differ'),
+    }).refine(data => (data.otherServiceName === undefined) !== (data.env === undefined), {
+      message: 'Pass either otherServiceName or env',
+    }),
+    handler: async (params, context) => {
+      const client = getClient(context.instance);
+
+      const from = parseAndValidateEnvVars(await client.getEnv(params.projectName, params.serviceName));
+      const to = parseAndValidateEnvVars(params.env !== undefined
+        ? params.env
+        : await getClient(params.otherInstance ?? context.instance).getEnv(params.otherProjectName ?? params.projectName, params.otherServiceName!));
+      const diff = diffEnvVars(from, to);
+
+      // Values keyed by variable name, so secret-looking names are masked like any env output
+      const valuesOf = (vars: Record<string, string>, keys: string[]) =>
+        Object.fromEntries(keys.filter(key => key in vars).map(key => [key, vars[key]]));
+      const differing = [...diff.added, ...diff.removed, ...diff.changed];
+
+      return {
+        content: [
+          {
+            type: 'text' as const,
+            text: JSON.stringify({
+              from: `${params.projectName}/${params.serviceName}`,
+              to: params.env !== undefined ? 'env' : `${params.otherProjectName ?? params.projectName}/${params.otherServiceName}`,
+              identical: differing.length === 0,
+              ...diff,
+              unchangedCount: Object.keys(from).filter(key => key in to && from[key] === to[key]).length,
+              ...(params.showValues ? { values: { from: valuesOf(from, differing), to: valuesOf(to, differing) } } : {}),
+            }, null, 2),
+          },
+        ],
+      };
+    },
+  }),
+};
@@ -0,0 +1,36 @@
+/**
+ * Tool Registry Assembly
+ * Every transport lists and dispatches tools through this registry
+ */
+
+import { ToolRegistry } from './registry.js';
+import { projectTools } from './projects.js';
+import { serviceTools } from './services.js';
+import { envTools } from './env.js';
+import { databaseTools } from './databases.js';
+import { domainTools } from './domains.js';
+import { licenseTools } from './license.js';
+import { monitoringTools } from './monitoring.js';
+import { dockerTools } from './docker.js';
+import { systemTools } from './system.js';
+import { instanceTools } from './instances.js';
+import { auditTools } from './audit.js';
+import { stackTools } from './stacks.js';
+
+export const toolRegistry = new ToolRegistry().register(
+  ...Object.values(projectTools),
+  ...Object.values(serviceTools),
+  ...Object.values(envTools),
+  ...Object.values(databaseTools),
+  ...Object.values(domainTools),
+  ...Object.values(licenseTools),
+  ...Object.values(monitoringTools),
+  ...Object.values(dockerTools),
+  ...Object.values(systemTools),
+  ...Object.values(instanceTools),
+  ...Object.values(auditTools),
+  ...Object.values(stackTools),
+);
+
+export { ToolRegistry } from './registry.js';
+export type { ToolCategory, ToolContext, ToolDefinition, ToolResult } from './registry.js';
@@ -0,0 +1,48 @@
+/**
+ * EasyPanel Instance Tools
+ */
+
+import { z } from 'zod';
+import { getClient, getDefaultInstanceName, getInstances, hasClient } from '../api/client.js';
+import { defineTool } from './registry.js';
+
+export const instanceTools = {
+  list_instances: defineTool({
+    name: 'list_instances',
+    description: 'List the configured EasyPanel instances that tools can target with the "instance" argument',
+    category: 'system',
+    annotations: { readOnlyHint: true },
+    inputSchema: z.object({}),
+    handler: async () => {
+      const defaultInstance = getDefaultInstanceName();
+
+      const instances = getInstances().map(instance => {
+        const connected = hasClient(instance.name);
+
+        return {
+          name: instance.name,
+          url: instance.url,
+          description: instance.description,
+          default: instance.name === defaultInstance,
+          auth: instance.email && instance.password ? 'credentials' : instance.token ? 'token' : 'none',
+          connected,
+          plan: connected ? (getClient(instance.name).getPlanInfo().isFree ? 'free' : 'premium') : undefined,
+        };
+      });
+
+      return {
+        content: [
+          {
+            type: 'text' as const,
+            text: JSON.stringify({
+              success: true,
+              message: `Found ${instances.length} instance(s)`,
+              defaultInstance,
+              instances,
+            }, null, 2),
+          },
+        ],
+      };
+    },
+  }),
+};
@@ -0,0 +1,60 @@
+/**
+ * Tool Policy
+ * Read-only mode and allow/deny patterns that decide which tools are listed and callable
+ */
+
+import { getConfig } from '../config.js';
+import type { ToolDefinition } from './registry.js';
+
+export interface ToolPolicy {
+  readOnly: boolean;
+  allow: string[];
+  deny: string[];
+  allowReveal: boolean;
+}
+
+/**
+ * Effective policy: the config file "policy" section plus --read-only (EASYPANEL_READ_ONLY=true)
+ */
+export function getToolPolicy(): ToolPolicy {
+  const config = getConfig().policy || {};
+
+  return {
+    readOnly: process.env.EASYPANEL_READ_ONLY === 'true' || config.readOnly === true,
+    allow: Array.isArray(config.allow) ? config.allow : [],
+    deny: Array.isArray(config.deny) ? config.deny : [],
+    allowReveal: config.allowReveal !== false,
+  };
+}
+
+/**
+ * Match a tool name against a glob pattern where * matches any run of characters and ? one character
+ */
+export function matchesToolPattern(name: string, pattern: string): boolean {
+  const source = pattern
+    .split('')
+    .map(char => char === '*' ? '.*' : char === '?' ? '.' : char.replace(/[.+^${}()|[\]\\]/g, '\\$&'))
+    .join('');
+  return new RegExp(`^${source}$`).test(name);
+}
+
+/**
+ * Why the policy blocks a tool, or undefined if the tool is available
+ */
+export function getPolicyDenial(definition: ToolDefinition, policy: ToolPolicy = getToolPolicy()): string | undefined {
+  // Only tools explicitly annotated read-only are guaranteed not to change EasyPanel
+  if (policy.readOnly && definition.annotations?.readOnlyHint !== true) {
+    return 'the server is running in read-only mode';
+  }
+
+  const denied = policy.deny.find(pattern => matchesToolPattern(definition.name, pattern));
+  if (denied) {
+    return `it matches the deny pattern '${denied}'`;
+  }
+
+  if (policy.allow.length > 0 && !policy.allow.some(pattern => matchesToolPattern(definition.name, pattern))) {
+    return 'it does not match any allow pattern';
+  }
+
+  return undefined;
+}
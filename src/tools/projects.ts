@@ -4,75 +4,20 @@
 
 import { z } from 'zod';
 import { getClient } from '../api/client.js';
-import { ValidationError, validateProjectServiceNameWithRefine } from '../utils/validation.js';
+import { validateProjectServiceNameWithRefine } from '../utils/validation.js';
+import { defineTool } from './registry.js';
+import { confirmationTokenSchema, requireConfirmation, summarizeProject } from './confirmation.js';
 
 export const projectTools = {
-  list_projects: {
+  list_projects: defineTool({
     name: 'list_projects',
     description: 'List all EasyPanel projects with their services',
-    inputSchema: {
-      type: 'object' as const,
-      properties: {},
-      required: [] as string[],
-    },
-  },
-
-  create_project: {
-    name: 'create_project',
-    description: 'Create a new project in EasyPanel',
-    inputSchema: {
-      type: 'object' as const,
-      properties: {
-        projectName: {
-          type: 'string',
-          description: 'Name for the new project (lowercase, alphanumeric, hyphens, and underscores allowed)',
-        },
-      },
-      required: ['projectName'],
-    },
-  },
-
-  inspect_project: {
-    name: 'inspect_project',
-    description: 'Get detailed information about a project',
-    inputSchema: {
-      type: 'object' as const,
-      properties: {
-        projectName: {
-          type: 'string',
-          description: 'Name of the project to inspect',
-        },
-      },
-      required: ['projectName'],
-    },
-  },
-
-  destroy_project: {
-    name: 'destroy_project',
-    description: 'Delete a project and ALL its services (DESTRUCTIVE - cannot be undone)',
-    inputSchema: {
-      type: 'object' as const,
-      properties: {
-        projectName: {
-          type: 'string',
-          description: 'Name of the project to delete',
-        },
-        confirm: {
-          type: 'boolean',
-          description: 'Must be true to confirm deletion',
-        },
-      },
-      required: ['projectName', 'confirm'],
-    },
-  },
-};
+    category: 'projects',
+    annotations: { readOnlyHint: true },
+    inputSchema: z.object({}),
+    handler: async (_params, context) => {
+      const client = getClient(context.instance);
 
-export async function handleProjectTool(name: string, args: unknown) {
-  const client = getClient();
-
-  try {  // Wrap entire switch in try-catch for validation errors
-    switch (name) {
-    case 'list_projects': {
       const projects = await client.listProjects();
       return {
         content: [
@@ -82,41 +27,42 @@ export async function handleProjectTool(name: string, args: unknown) {
           },
         ],
       };
-    }
+    },
+  }),
 
-    case 'create_project': {
-      const schema = z.object({
-        projectName: z.string().min(1).refine(validateProjectServiceNameWithRefine('project'), {
-          message: 'Project name must be 2-64 characters, lowercase alphanumeric, hyphens, or underscores, and start with a letter or number',
-        }),
-      });
-      const params = schema.parse(args);
+  create_project: defineTool({
+    name: 'create_project',
+    description: 'Create a new project in EasyPanel',
+    category: 'projects',
+    annotations: { readOnlyHint: false, destructiveHint: false },
+    inputSchema: z.object({
+      projectName: z.string().min(1).refine(validateProjectServiceNameWithRefine('project'), {
+        message: 'Project name must be 2-64 characters, lowercase alphanumeric, hyphens, or underscores, and start with a letter or number',
+      }).describe('Name for the new project (lowercase, alphanumeric, hyphens, and underscores allowed)'),
+    }),
+    handler: async (params, context) => {
+      const client = getClient(context.instance);
 
       const result = await client.createProject(params.projectName);
 
       // Get upgrade suggestion if applicable
       const upgradeSuggestion = client.getUpgradeSuggestion('create_project');
 
-      const response: any = {
+      // Check if this might be hitting project limits
+      const planInfo = client.getPlanInfo();
+      const nearProjectLimit = planInfo.isFree && (planInfo.detectedFeatures.maxProjectsSeen || 0) >= 2;
+
+      const response = {
         success: true,
         message: `Project '${params.projectName}' created successfully`,
         result,
+        // Add upgrade tip if available
+        ...(upgradeSuggestion ? { tip: { message: upgradeSuggestion.message, url: upgradeSuggestion.url } } : {}),
+        ...(upgradeSuggestion && nearProjectLimit
+          ? { warning: "You're approaching the Free tier project limit. Upgrade to Premium for unlimited projects!" }
+          : {}),
       };
 
-      // Add upgrade tip if available
-      if (upgradeSuggestion) {
-        response.tip = {
-          message: upgradeSuggestion.message,
-          url: upgradeSuggestion.url
-        };
-
-        // Check if this might be hitting project limits
-        const planInfo = client.getPlanInfo();
-        if (planInfo.isFree && (planInfo.detectedFeatures.maxProjectsSeen || 0) >= 2) {
-          response.warning = "You're approaching the Free tier project limit. Upgrade to Premium for unlimited projects!";
-        }
-      }
-
       let responseText = JSON.stringify(response, null, 2);
 
       // Add upgrade CTA for free tier users
@@ -132,13 +78,19 @@ export async function handleProjectTool(name: string, args: unknown) {
           },
         ],
       };
-    }
+    },
+  }),
 
-    case 'inspect_project': {
-      const schema = z.object({
-        projectName: z.string().min(1),
-      });
-      const params = schema.parse(args);
+  inspect_project: defineTool({
+    name: 'inspect_project',
+    description: 'Get detailed information about a project',
+    category: 'projects',
+    annotations: { readOnlyHint: true },
+    inputSchema: z.object({
+      projectName: z.string().min(1).describe('Name of the project to inspect'),
+    }),
+    handler: async (params, context) => {
+      const client = getClient(context.instance);
 
       const result = await client.inspectProject(params.projectName);
       return {
@@ -149,16 +101,27 @@ export async function handleProjectTool(name: string, args: unknown) {
           },
         ],
       };
-    }
+    },
+  }),
 
-    case 'destroy_project': {
-      const schema = z.object({
-        projectName: z.string().min(1),
-        confirm: z.literal(true, {
-          errorMap: () => ({ message: 'You must set confirm=true to delete a project' }),
-        }),
-      });
-      const params = schema.parse(args);
+  destroy_project: defineTool({
+    name: 'destroy_project',
+    description: 'Delete a project and ALL its services (DESTRUCTIVE - cannot be undone). The first call returns a summary and a confirmation token; call again with the token to delete',
+    category: 'projects',
+    annotations: { readOnlyHint: false, destructiveHint: true },
+    inputSchema: z.object({
+      projectName: z.string().min(1).describe('Name of the project to delete'),
+      confirmationToken: confirmationTokenSchema,
+    }),
+    handler: async (params, context) => {
+      const client = getClient(context.instance);
+
+      const pending = await requireConfirmation('destroy_project', params, context, () =>
+        summarizeProject(client, params.projectName)
+      );
+      if (pending) {
+        return pending;
+      }
 
       const result = await client.destroyProject(params.projectName);
       return {
@@ -173,52 +136,6 @@ export async function handleProjectTool(name: string, args: unknown) {
           },
         ],
       };
-    }
-
-    default:
-      throw new Error(`Unknown project tool: ${name}`);
-    }
-  } catch (error) {
-    // Handle validation errors specifically
-    if (error instanceof ValidationError) {
-      return {
-        content: [
-          {
-            type: 'text' as const,
-            text: JSON.stringify({
-              success: false,
-              error: 'Validation Error',
-              message: error.message,
-              field: error.field,
-              value: error.value,
-            }, null, 2),
-          },
-        ],
-      };
-    }
-
-    // Handle Zod validation errors
-    if (error instanceof z.ZodError) {
-      return {
-        content: [
-          {
-            type: 'text' as const,
-            text: JSON.stringify({
-              success: false,
-              error: 'Input Validation Error',
-              message: 'Invalid input parameters',
-              details: error.errors.map(err => ({
-                field: err.path.join('.'),
-                message: err.message,
-                code: err.code,
-              })),
-            }, null, 2),
-          },
-        ],
-      };
-    }
-
-    // Re-throw other errors
-    throw error;
-  }
-}
+    },
+  }),
+};
@@ -0,0 +1,369 @@
+/**
+ * Tool Registry
+ * Single source of truth for tool schemas, metadata and handlers.
+ * The stdio/SSE MCP server and the REST API both dispatch through it.
+ */
+
+import { z } from 'zod';
+import { zodToJsonSchema } from 'zod-to-json-schema';
+import {
+  CallToolResult,
+  ErrorCode,
+  McpError,
+  Tool,
+  ToolAnnotations,
+} from '@modelcontextprotocol/sdk/types.js';
+import type { ClientInfo } from '../client-detection.js';
+import { getDefaultInstanceName, isDryRunEnabled, isEasyPanelError, withDryRun, withRequestTimeout } from '../api/client.js';
+import { getPolicyDenial, getToolPolicy } from './policy.js';
+import { withAuditContext } from '../utils/audit.js';
+import { redactConfiguredOutput } from '../utils/redaction.js';
+import { toolCalls, toolDuration, toolErrors } from '../utils/metrics.js';
+import { withSpan } from '../utils/tracing.js';
+import { ValidationError } from '../utils/validation.js';
+
+export type ToolCategory =
+  | 'projects'
+  | 'services'
+  | 'databases'
+  | 'domains'
+  | 'license'
+  | 'monitoring'
+  | 'docker'
+  | 'system';
+
+/**
+ * Per-call context supplied by the transport that received the request
+ */
+export interface ToolContext {
+  sessionId?: string;
+  client?: ClientInfo;
+  instance?: string;
+}
+
+export type ToolResult = CallToolResult;
+
+export interface ToolDefinition<S extends z.ZodTypeAny = z.ZodTypeAny> {
+  name: string;
+  description: string;
+  category: ToolCategory;
+  inputSchema: S;
+  annotations?: ToolAnnotations;
+  handler: (args: z.output<S>, context: ToolContext) => Promise<ToolResult>;
+}
+
+/**
+ * Helper that keeps the handler argument type tied to the input schema
+ */
+export function defineTool<S extends z.ZodTypeAny>(definition: ToolDefinition<S>): ToolDefinition<S> {
+  return definition;
+}
+
+/**
+ * Arguments every tool accepts on top of its own input schema
+ */
+const commonArgsSchema = z.object({
+  instance: z.string().min(1).optional()
+    .describe('Name of the EasyPanel instance to target (default: the configured default instance)'),
+  dryRun: z.boolean().optional()
+    .describe('Return the EasyPanel mutations this call would send, without sending them'),
+  timeoutMs: z.number().int().positive().optional()
+    .describe('Timeout in milliseconds for each EasyPanel request this call makes (default: the timeout class of each request)'),
+  reveal: z.boolean().optional()
+    .describe('Return passwords, tokens and secret env values unmasked (the server policy may forbid this)'),
+});
+
+// Read-only tools never mutate, so dryRun is not advertised for them
+const readOnlyCommonArgsSchema = commonArgsSchema.omit({ dryRun: true });
+
+/**
+ * Convert a zod input schema into the JSON schema advertised to clients
+ */
+export function toJsonSchema(schema: z.ZodTypeAny): Tool['inputSchema'] {
+  const { $schema, ...jsonSchema } = zodToJsonSchema(schema, {
+    strictUnions: true,
+    pipeStrategy: 'input',
+  }) as Record<string, unknown>;
+
+  return {
+    ...jsonSchema,
+    type: 'object',
+  } as Tool['inputSchema'];
+}
+
+/**
+ * JSON schema for a tool, including the common arguments
+ */
+function toToolJsonSchema(definition: ToolDefinition<any>): Tool['inputSchema'] {
+  const jsonSchema = toJsonSchema(definition.inputSchema);
+  const common = toJsonSchema(
+    definition.annotations?.readOnlyHint ? readOnlyCommonArgsSchema : commonArgsSchema
+  );
+
+  return {
+    ...jsonSchema,
+    properties: {
+      ...jsonSchema.properties,
+      ...common.properties,
+    },
+  };
+}
+
+/**
+ * Split the common arguments off the tool-specific ones
+ */
+function splitCommonArgs(args: unknown): { common: unknown; rest: unknown } {
+  if (!args || typeof args !== 'object' || Array.isArray(args)) {
+    return { common: {}, rest: args ?? {} };
+  }
+
+  const { instance, dryRun, timeoutMs, reveal, ...rest } = args as Record<string, unknown>;
+  return { common: { instance, dryRun, timeoutMs, reveal }, rest };
+}
+
+/**
+ * Mask credentials in the JSON (or plain) text a tool returns, unless the config file turns masking off
+ */
+function redactResult(result: ToolResult): ToolResult {
+  return {
+    ...result,
+    content: result.content.map(item => {
+      if (item.type !== 'text') {
+        return item;
+      }
+
+      try {
+        return { ...item, text: JSON.stringify(redactConfiguredOutput(JSON.parse(item.text)), null, 2) };
+      } catch {
+        return { ...item, text: redactConfiguredOutput(item.text) };
+      }
+    }),
+  };
+}
+
+// Results built by validationResult, counted as failed calls in the metrics
+const validationResults = new WeakSet<ToolResult>();
+
+/**
+ * Format input validation failures the same way for every tool
+ */
+function validationResult(error: z.ZodError | ValidationError): ToolResult {
+  const result = buildValidationResult(error);
+  validationResults.add(result);
+  return result;
+}
+
+function buildValidationResult(error: z.ZodError | ValidationError): ToolResult {
+  if (error instanceof ValidationError) {
+    return {
+      content: [
+        {
+          type: 'text' as const,
+          text: JSON.stringify({
+            success: false,
+            error: 'Validation Error',
+            message: error.message,
+            field: error.field,
+            value: error.value,
+          }, null, 2),
+        },
+      ],
+    };
+  }
+
+  return {
+    content: [
+      {
+        type: 'text' as const,
+        text: JSON.stringify({
+          success: false,
+          error: 'Input Validation Error',
+          message: 'Invalid input parameters',
+          details: error.errors.map(err => ({
+            field: err.path.join('.'),
+            message: err.message,
+            code: err.code,
+          })),
+        }, null, 2),
+      },
+    ],
+  };
+}
+
+export class ToolRegistry {
+  private tools = new Map<string, ToolDefinition>();
+  private jsonSchemas = new Map<string, Tool['inputSchema']>();
+
+  /**
+   * Register one or more tool definitions
+   */
+  register(...definitions: ToolDefinition<any>[]): this {
+    for (const definition of definitions) {
+      if (this.tools.has(definition.name)) {
+        throw new Error(`Tool '${definition.name}' is already registered`);
+      }
+      this.tools.set(definition.name, definition);
+      this.jsonSchemas.set(definition.name, toToolJsonSchema(definition));
+    }
+    return this;
+  }
+
+  has(name: string): boolean {
+    return this.tools.has(name);
+  }
+
+  get(name: string): ToolDefinition | undefined {
+    return this.tools.get(name);
+  }
+
+  names(): string[] {
+    return Array.from(this.tools.keys());
+  }
+
+  /**
+   * Whether the tool policy lets clients see and call a registered tool
+   */
+  isAllowed(name: string): boolean {
+    const definition = this.tools.get(name);
+    return definition !== undefined && getPolicyDenial(definition) === undefined;
+  }
+
+  /**
+   * Describe a single tool in MCP ListTools format
+   */
+  describe(name: string): Tool | undefined {
+    const definition = this.tools.get(name);
+    if (!definition) {
+      return undefined;
+    }
+
+    return {
+      name: definition.name,
+      description: definition.description,
+      inputSchema: this.jsonSchemas.get(name)!,
+      ...(definition.annotations ? { annotations: definition.annotations } : {}),
+    };
+  }
+
+  /**
+   * Describe the tools the policy allows, in MCP ListTools format
+   */
+  list(): Tool[] {
+    const policy = getToolPolicy();
+    return Array.from(this.tools.values())
+      .filter(definition => getPolicyDenial(definition, policy) === undefined)
+      .map(definition => this.describe(definition.name)!);
+  }
+
+  /**
+   * Validate arguments against the tool schema and run its handler, recording call metrics
+   * and a span that the EasyPanel requests and shell commands of the call are children of
+   */
+  async call(name: string, args: unknown, context: ToolContext = {}): Promise<ToolResult> {
+    // Unknown names are not recorded, so callers cannot create unbounded metric series
+    if (!this.tools.has(name)) {
+      return this.execute(name, args, context);
+    }
+
+    const attributes = { 'mcp.tool.name': name, 'mcp.session.id': context.sessionId, 'mcp.client.type': context.client?.type };
+    return withSpan(`tool ${name}`, { kind: 'server', attributes }, async span => {
+      const startedAt = Date.now();
+      try {
+        const result = await this.execute(name, args, context);
+        if (validationResults.has(result)) {
+          toolErrors.inc({ tool: name, category: 'VALIDATION' });
+          span.setError('Invalid tool arguments');
+        }
+        toolCalls.inc({ tool: name, outcome: validationResults.has(result) ? 'error' : 'success' });
+        return result;
+      } catch (error) {
+        const category = isEasyPanelError(error) ? error.category : error instanceof McpError ? 'POLICY' : 'UNKNOWN';
+        toolErrors.inc({ tool: name, category });
+        toolCalls.inc({ tool: name, outcome: 'error' });
+        span.setAttribute('error.type', category);
+        throw error;
+      } finally {
+        toolDuration.observeSince({ tool: name }, startedAt);
+      }
+    });
+  }
+
+  private async execute(name: string, args: unknown, context: ToolContext): Promise<ToolResult> {
+    const definition = this.tools.get(name);
+    if (!definition) {
+      throw new McpError(ErrorCode.MethodNotFound, `Unknown tool: ${name}`);
+    }
+
+    const denial = getPolicyDenial(definition);
+    if (denial) {
+      throw new McpError(ErrorCode.InvalidRequest, `Tool '${name}' is disabled because ${denial}`);
+    }
+
+    const { common, rest } = splitCommonArgs(args);
+
+    const commonParsed = commonArgsSchema.safeParse(common);
+    if (!commonParsed.success) {
+      return validationResult(commonParsed.error);
+    }
+
+    const reveal = commonParsed.data.reveal === true;
+    if (reveal && !getToolPolicy().allowReveal) {
+      throw new McpError(ErrorCode.InvalidRequest, `Tool '${name}' cannot reveal secrets because the policy sets allowReveal to false`);
+    }
+
+    const parsed = definition.inputSchema.safeParse(rest);
+    if (!parsed.success) {
+      return validationResult(parsed.error);
+    }
+
+    const callContext: ToolContext = {
+      ...context,
+      instance: commonParsed.data.instance ?? context.instance,
+    };
+
+    // Attribute the mutations the handler makes to this call in the audit log
+    const run = () => withAuditContext(
+      { tool: name, sessionId: callContext.sessionId, clientType: callContext.client?.type },
+      () => withRequestTimeout(commonParsed.data.timeoutMs, () => definition.handler(parsed.data, callContext))
+    );
+
+    try {
+      const result = commonParsed.data.dryRun || isDryRunEnabled()
+        ? await this.dryRun(name, run, callContext)
+        : await run();
+      return reveal ? result : redactResult(result);
+    } catch (error) {
+      if (error instanceof ValidationError || error instanceof z.ZodError) {
+        return validationResult(error);
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Run a handler with mutations recorded instead of sent, and return the plan.
+   * Calls that plan no mutations (reads, refused confirmations) return their normal result.
+   */
+  private async dryRun(name: string, run: () => Promise<ToolResult>, context: ToolContext): Promise<ToolResult> {
+    const { result, mutations } = await withDryRun(run);
+    if (mutations.length === 0) {
+      return result;
+    }
+
+    return {
+      content: [
+        {
+          type: 'text' as const,
+          text: JSON.stringify({
+            success: true,
+            dryRun: true,
+            tool: name,
+            instance: context.instance ?? getDefaultInstanceName(),
+            message: `Dry run: ${mutations.length} mutation(s) planned, nothing was sent to EasyPanel`,
+            mutations,
+          }, null, 2),
+        },
+      ],
+    };
+  }
+}
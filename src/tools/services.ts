@@ -4,552 +4,43 @@
 
 import { z } from 'zod';
 import { getClient } from '../api/client.js';
-import { ContainerLog } from '../types/easypanel.js';
-import { ValidationError, validateGitRepo, validateProjectServiceNameWithRefine } from '../utils/validation.js';
+import { validateGitRepo, validateProjectServiceNameWithRefine } from '../utils/validation.js';
+import { defineTool } from './registry.js';
+import { confirmationTokenSchema, requireConfirmation, summarizeService } from './confirmation.js';
 
-export const serviceTools = {
-  create_app_service: {
-    name: 'create_app_service',
-    description: 'Create a new app service in a project',
-    inputSchema: {
-      type: 'object' as const,
-      properties: {
-        projectName: {
-          type: 'string',
-          description: 'Name of the project',
-        },
-        serviceName: {
-          type: 'string',
-          description: 'Name for the new service (lowercase, alphanumeric, hyphens, underscores)',
-        },
-      },
-      required: ['projectName', 'serviceName'],
-    },
-  },
-
-  deploy_from_image: {
-    name: 'deploy_from_image',
-    description: 'Deploy a service from a Docker image',
-    inputSchema: {
-      type: 'object' as const,
-      properties: {
-        projectName: {
-          type: 'string',
-          description: 'Name of the project',
-        },
-        serviceName: {
-          type: 'string',
-          description: 'Name of the service',
-        },
-        image: {
-          type: 'string',
-          description: 'Docker image (e.g., nginx:latest, ghcr.io/user/image:tag)',
-        },
-        username: {
-          type: 'string',
-          description: 'Docker registry username (optional, for private images)',
-        },
-        password: {
-          type: 'string',
-          description: 'Docker registry password (optional, for private images)',
-        },
-      },
-      required: ['projectName', 'serviceName', 'image'],
-    },
-  },
-
-  deploy_from_git: {
-    name: 'deploy_from_git',
-    description: 'Deploy a service from a Git repository (uses Nixpacks or Buildpacks)',
-    inputSchema: {
-      type: 'object' as const,
-      properties: {
-        projectName: {
-          type: 'string',
-          description: 'Name of the project',
-        },
-        serviceName: {
-          type: 'string',
-          description: 'Name of the service',
-        },
-        repo: {
-          type: 'string',
-          description: 'Git repository URL',
-        },
-        ref: {
-          type: 'string',
-          description: 'Git branch or tag (default: main)',
-        },
-        path: {
-          type: 'string',
-          description: 'Path to app within repo (default: /)',
-        },
-      },
-      required: ['projectName', 'serviceName', 'repo'],
-    },
-  },
+const logLevelSchema = z.enum(['debug', 'info', 'warn', 'error', 'fatal']);
+const systemServiceSchema = z.enum(['easypanel', 'traefik', 'docker', 'nginx']);
 
-  deploy_from_dockerfile: {
-    name: 'deploy_from_dockerfile',
-    description: 'Deploy a service using a Dockerfile from a Git repository',
-    inputSchema: {
-      type: 'object' as const,
-      properties: {
-        projectName: {
-          type: 'string',
-          description: 'Name of the project',
-        },
-        serviceName: {
-          type: 'string',
-          description: 'Name of the service',
-        },
-        repo: {
-          type: 'string',
-          description: 'Git repository URL',
-        },
-        ref: {
-          type: 'string',
-          description: 'Git branch or tag (default: main)',
-        },
-        path: {
-          type: 'string',
-          description: 'Path to app within repo (default: /)',
-        },
-        dockerfilePath: {
-          type: 'string',
-          description: 'Path to Dockerfile (default: ./Dockerfile)',
-        },
-      },
-      required: ['projectName', 'serviceName', 'repo'],
-    },
-  },
-
-  start_service: {
-    name: 'start_service',
-    description: 'Start a stopped service',
-    inputSchema: {
-      type: 'object' as const,
-      properties: {
-        projectName: {
-          type: 'string',
-          description: 'Name of the project',
-        },
-        serviceName: {
-          type: 'string',
-          description: 'Name of the service',
-        },
-      },
-      required: ['projectName', 'serviceName'],
-    },
-  },
-
-  stop_service: {
-    name: 'stop_service',
-    description: 'Stop a running service',
-    inputSchema: {
-      type: 'object' as const,
-      properties: {
-        projectName: {
-          type: 'string',
-          description: 'Name of the project',
-        },
-        serviceName: {
-          type: 'string',
-          description: 'Name of the service',
-        },
-      },
-      required: ['projectName', 'serviceName'],
-    },
-  },
-
-  restart_service: {
-    name: 'restart_service',
-    description: 'Restart a service',
-    inputSchema: {
-      type: 'object' as const,
-      properties: {
-        projectName: {
-          type: 'string',
-          description: 'Name of the project',
-        },
-        serviceName: {
-          type: 'string',
-          description: 'Name of the service',
-        },
-      },
-      required: ['projectName', 'serviceName'],
-    },
-  },
-
-  redeploy_service: {
-    name: 'redeploy_service',
-    description: 'Trigger a new deployment for a service',
-    inputSchema: {
-      type: 'object' as const,
-      properties: {
-        projectName: {
-          type: 'string',
-          description: 'Name of the project',
-        },
-        serviceName: {
-          type: 'string',
-          description: 'Name of the service',
-        },
-      },
-      required: ['projectName', 'serviceName'],
-    },
-  },
-
-  destroy_service: {
-    name: 'destroy_service',
-    description: 'Delete a service (DESTRUCTIVE - cannot be undone)',
-    inputSchema: {
-      type: 'object' as const,
-      properties: {
-        projectName: {
-          type: 'string',
-          description: 'Name of the project',
-        },
-        serviceName: {
-          type: 'string',
-          description: 'Name of the service to delete',
-        },
-        confirm: {
-          type: 'boolean',
-          description: 'Must be true to confirm deletion',
-        },
-      },
-      required: ['projectName', 'serviceName', 'confirm'],
-    },
-  },
-
-  update_env: {
-    name: 'update_env',
-    description: 'Update environment variables for a service',
-    inputSchema: {
-      type: 'object' as const,
-      properties: {
-        projectName: {
-          type: 'string',
-          description: 'Name of the project',
-        },
-        serviceName: {
-          type: 'string',
-          description: 'Name of the service',
-        },
-        env: {
-          type: 'string',
-          description: 'Environment variables as KEY=VALUE pairs, separated by newlines',
-        },
-      },
-      required: ['projectName', 'serviceName', 'env'],
-    },
-  },
-
-  update_resources: {
-    name: 'update_resources',
-    description: 'Update resource limits (memory/CPU) for a service',
-    inputSchema: {
-      type: 'object' as const,
-      properties: {
-        projectName: {
-          type: 'string',
-          description: 'Name of the project',
-        },
-        serviceName: {
-          type: 'string',
-          description: 'Name of the service',
-        },
-        memoryReservation: {
-          type: 'number',
-          description: 'Memory reservation in MB',
-        },
-        memoryLimit: {
-          type: 'number',
-          description: 'Memory limit in MB',
-        },
-        cpuReservation: {
-          type: 'number',
-          description: 'CPU reservation (0.5 = 50% of one core)',
-        },
-        cpuLimit: {
-          type: 'number',
-          description: 'CPU limit (1.0 = one full core)',
-        },
-      },
-      required: ['projectName', 'serviceName'],
-    },
-  },
-
-  get_service_stats: {
-    name: 'get_service_stats',
-    description: 'Get CPU, memory, and network statistics for a service',
-    inputSchema: {
-      type: 'object' as const,
-      properties: {
-        projectName: {
-          type: 'string',
-          description: 'Name of the project',
-        },
-        serviceName: {
-          type: 'string',
-          description: 'Name of the service',
-        },
-      },
-      required: ['projectName', 'serviceName'],
-    },
-  },
-
-  get_service_logs: {
-    name: "get_service_logs",
-    description: "Get logs for a service with filtering options",
-    inputSchema: {
-      type: "object" as const,
-      properties: {
-        projectName: {
-          type: "string",
-          description: "Name of the project",
-        },
-        serviceName: {
-          type: "string",
-          description: "Name of the service",
-        },
-        since: {
-          type: "string",
-          description: "ISO timestamp or RFC3339 string to get logs since this time (optional)",
-        },
-        until: {
-          type: "string",
-          description: "ISO timestamp or RFC3339 string to get logs until this time (optional)",
-        },
-        lines: {
-          type: "number",
-          description: "Number of log lines to retrieve (default: 100, max: 10000)",
-        },
-        timestamps: {
-          type: "boolean",
-          description: "Include timestamps in log output (default: true)",
-        },
-        level: {
-          type: "array",
-          items: {
-            type: "string",
-            enum: ["debug", "info", "warn", "error", "fatal"],
-          },
-          description: "Filter by log levels (optional)",
-        },
-        search: {
-          type: "string",
-          description: "Search term to filter log messages (optional)",
-        },
-      },
-      required: ["projectName", "serviceName"],
-    },
-  },
-
-  search_logs: {
-    name: "search_logs",
-    description: "Search logs for a specific query string",
-    inputSchema: {
-      type: "object" as const,
-      properties: {
-        projectName: {
-          type: "string",
-          description: "Name of the project",
-        },
-        serviceName: {
-          type: "string",
-          description: "Name of the service",
-        },
-        query: {
-          type: "string",
-          description: "Search query to find in log messages",
-        },
-        since: {
-          type: "string",
-          description: "ISO timestamp or RFC3339 string to search logs since this time (optional)",
-        },
-        until: {
-          type: "string",
-          description: "ISO timestamp or RFC3339 string to search logs until this time (optional)",
-        },
-        lines: {
-          type: "number",
-          description: "Number of log lines to search through (default: 1000)",
-        },
-        level: {
-          type: "array",
-          items: {
-            type: "string",
-            enum: ["debug", "info", "warn", "error", "fatal"],
-          },
-          description: "Filter by log levels (optional)",
-        },
-      },
-      required: ["projectName", "serviceName", "query"],
-    },
-  },
-
-  get_log_stream_url: {
-    name: "get_log_stream_url",
-    description: "Get WebSocket URL for real-time log streaming",
-    inputSchema: {
-      type: "object" as const,
-      properties: {
-        projectName: {
-          type: "string",
-          description: "Name of the project",
-        },
-        serviceName: {
-          type: "string",
-          description: "Name of the service",
-        },
-        follow: {
-          type: "boolean",
-          description: "Follow log stream in real-time (default: true)",
-        },
-        since: {
-          type: "string",
-          description: "ISO timestamp or RFC3339 string to stream logs since this time (optional)",
-        },
-        lines: {
-          type: "number",
-          description: "Number of past lines to include before streaming (default: 100)",
-        },
-      },
-      required: ["projectName", "serviceName"],
-    },
-  },
-
-
-  get_build_status: {
-    name: 'get_build_status',
-    description: 'Get the build status of a deployment',
-    inputSchema: {
-      type: 'object' as const,
-      properties: {
-        projectName: {
-          type: 'string',
-          description: 'Name of the project',
-        },
-        serviceName: {
-          type: 'string',
-          description: 'Name of the service',
-        },
-        buildId: {
-          type: 'string',
-          description: 'Build ID (optional)',
-        },
-      },
-      required: ['projectName', 'serviceName'],
-    },
-  },
-
-  wait_for_deploy: {
-    name: 'wait_for_deploy',
-    description: 'Wait for deployment to complete with progress updates',
-    inputSchema: {
-      type: 'object' as const,
-      properties: {
-        projectName: {
-          type: 'string',
-          description: 'Name of the project',
-        },
-        serviceName: {
-          type: 'string',
-          description: 'Name of the service',
-        },
-        buildId: {
-          type: 'string',
-          description: 'Build ID from deploy response',
-        },
-        timeout: {
-          type: 'number',
-          description: 'Timeout in milliseconds (default: 300000 for 5 minutes)',
-        },
-        interval: {
-          type: 'number',
-          description: 'Polling interval in milliseconds (default: 5000)',
-        },
-      },
-      required: ['projectName', 'serviceName', 'buildId'],
-    },
-  },
-
-  service_restart_easypanel: {
-    name: 'service_restart_easypanel',
-    description: 'Restart EasyPanel daemon service',
-    inputSchema: {
-      type: 'object' as const,
-      properties: {},
-      required: [],
-    },
-  },
-
-  service_restart_traefik: {
-    name: 'service_restart_traefik',
-    description: 'Restart Traefik proxy service',
-    inputSchema: {
-      type: 'object' as const,
-      properties: {},
-      required: [],
-    },
-  },
-
-  service_get_status: {
-    name: 'service_get_status',
-    description: 'Check service health status',
-    inputSchema: {
-      type: 'object' as const,
-      properties: {
-        serviceName: {
-          type: 'string',
-          enum: ['easypanel', 'traefik', 'docker', 'nginx'],
-          description: 'Name of the service to check (easypanel, traefik, docker, nginx)',
-        },
-      },
-      required: ['serviceName'],
-    },
-  },
+const gitRepoSchema = z.string().refine((url) => {
+  try {
+    validateGitRepo(url);
+    return true;
+  } catch (error) {
+    return false;
+  }
+}, {
+  message: 'Must be a valid Git repository URL ending with .git or a GitHub URL'
+});
 
-  service_get_logs: {
-    name: 'service_get_logs',
-    description: 'Fetch system service logs',
-    inputSchema: {
-      type: 'object' as const,
-      properties: {
-        serviceName: {
-          type: 'string',
-          enum: ['easypanel', 'traefik', 'docker', 'nginx'],
-          description: 'Name of the service (easypanel, traefik, docker, nginx)',
-        },
-        lines: {
-          type: 'number',
-          description: 'Number of log lines to retrieve (default: 100, max: 1000)',
-        },
-        follow: {
-          type: 'boolean',
-          description: 'Follow log stream in real-time (default: false)',
-        },
-      },
-      required: ['serviceName'],
-    },
-  },
+const serviceTargetShape = {
+  projectName: z.string().min(1).describe('Name of the project'),
+  serviceName: z.string().min(1).describe('Name of the service'),
 };
 
-export async function handleServiceTool(name: string, args: unknown) {
-  const client = getClient();
-
-  try {  // Wrap entire switch in try-catch for validation errors
-    switch (name) {
-    case 'create_app_service': {
-      const schema = z.object({
-        projectName: z.string().min(1),
-        serviceName: z.string().min(1).refine(validateProjectServiceNameWithRefine('service'), {
-          message: 'Service name must be 2-64 characters, lowercase alphanumeric, hyphens, or underscores, and start with a letter or number',
-        }),
-      });
-      const params = schema.parse(args);
+export const serviceTools = {
+  create_app_service: defineTool({
+    name: 'create_app_service',
+    description: 'Create a new app service in a project',
+    category: 'services',
+    annotations: { readOnlyHint: false, destructiveHint: false },
+    inputSchema: z.object({
+      projectName: z.string().min(1).describe('Name of the project'),
+      serviceName: z.string().min(1).refine(validateProjectServiceNameWithRefine('service'), {
+        message: 'Service name must be 2-64 characters, lowercase alphanumeric, hyphens, or underscores, and start with a letter or number',
+      }).describe('Name for the new service (lowercase, alphanumeric, hyphens, underscores)'),
+    }),
+    handler: async (params, context) => {
+      const client = getClient(context.instance);
 
       const result = await client.createAppService(params.projectName, params.serviceName);
       return {
@@ -564,17 +55,22 @@ export async function handleServiceTool(name: string, args: unknown) {
           },
         ],
       };
-    }
+    },
+  }),
 
-    case 'deploy_from_image': {
-      const schema = z.object({
-        projectName: z.string().min(1),
-        serviceName: z.string().min(1),
-        image: z.string().min(1),
-        username: z.string().optional(),
-        password: z.string().optional(),
-      });
-      const params = schema.parse(args);
+  deploy_from_image: defineTool({
+    name: 'deploy_from_image',
+    description: 'Deploy a service from a Docker image',
+    category: 'services',
+    annotations: { readOnlyHint: false, destructiveHint: false },
+    inputSchema: z.object({
+      ...serviceTargetShape,
+      image: z.string().min(1).describe('Docker image (e.g., nginx:latest, ghcr.io/user/image:tag)'),
+      username: z.string().optional().describe('Docker registry username (optional, for private images)'),
+      password: z.string().optional().describe('Docker registry password (optional, for private images)'),
+    }),
+    handler: async (params, context) => {
+      const client = getClient(context.instance);
 
       const result = await client.deployFromImage(
         params.projectName,
@@ -595,26 +91,22 @@ export async function handleServiceTool(name: string, args: unknown) {
           },
         ],
       };
-    }
+    },
+  }),
 
-    case 'deploy_from_git': {
-      const schema = z.object({
-        projectName: z.string().min(1),
-        serviceName: z.string().min(1),
-        repo: z.string().refine((url) => {
-          try {
-            validateGitRepo(url);
-            return true;
-          } catch (error) {
-            return false;
-          }
-        }, {
-          message: 'Must be a valid Git repository URL ending with .git or a GitHub URL'
-        }),
-        ref: z.string().default('main'),
-        path: z.string().default('/'),
-      });
-      const params = schema.parse(args);
+  deploy_from_git: defineTool({
+    name: 'deploy_from_git',
+    description: 'Deploy a service from a Git repository (uses Nixpacks or Buildpacks)',
+    category: 'services',
+    annotations: { readOnlyHint: false, destructiveHint: false },
+    inputSchema: z.object({
+      ...serviceTargetShape,
+      repo: gitRepoSchema.describe('Git repository URL'),
+      ref: z.string().default('main').describe('Git branch or tag (default: main)'),
+      path: z.string().default('/').describe('Path to app within repo (default: /)'),
+    }),
+    handler: async (params, context) => {
+      const client = getClient(context.instance);
 
       const result = await client.deployFromGit(
         params.projectName,
@@ -635,27 +127,23 @@ export async function handleServiceTool(name: string, args: unknown) {
           },
         ],
       };
-    }
+    },
+  }),
 
-    case 'deploy_from_dockerfile': {
-      const schema = z.object({
-        projectName: z.string().min(1),
-        serviceName: z.string().min(1),
-        repo: z.string().refine((url) => {
-          try {
-            validateGitRepo(url);
-            return true;
-          } catch (error) {
-            return false;
-          }
-        }, {
-          message: 'Must be a valid Git repository URL ending with .git or a GitHub URL'
-        }),
-        ref: z.string().default('main'),
-        path: z.string().default('/'),
-        dockerfilePath: z.string().default('./Dockerfile'),
-      });
-      const params = schema.parse(args);
+  deploy_from_dockerfile: defineTool({
+    name: 'deploy_from_dockerfile',
+    description: 'Deploy a service using a Dockerfile from a Git repository',
+    category: 'services',
+    annotations: { readOnlyHint: false, destructiveHint: false },
+    inputSchema: z.object({
+      ...serviceTargetShape,
+      repo: gitRepoSchema.describe('Git repository URL'),
+      ref: z.string().default('main').describe('Git branch or tag (default: main)'),
+      path: z.string().default('/').describe('Path to app within repo (default: /)'),
+      dockerfilePath: z.string().default('./Dockerfile').describe('Path to Dockerfile (default: ./Dockerfile)'),
+    }),
+    handler: async (params, context) => {
+      const client = getClient(context.instance);
 
       const result = await client.deployFromDockerfile(
         params.projectName,
@@ -677,14 +165,17 @@ export async function handleServiceTool(name: string, args: unknown) {
           },
         ],
       };
-    }
+    },
+  }),
 
-    case 'start_service': {
-      const schema = z.object({
-        projectName: z.string().min(1),
-        serviceName: z.string().min(1),
-      });
-      const params = schema.parse(args);
+  start_service: defineTool({
+    name: 'start_service',
+    description: 'Start a stopped service',
+    category: 'services',
+    annotations: { readOnlyHint: false, destructiveHint: false, idempotentHint: true },
+    inputSchema: z.object(serviceTargetShape),
+    handler: async (params, context) => {
+      const client = getClient(context.instance);
 
       const result = await client.startService(params.projectName, params.serviceName);
       return {
@@ -699,14 +190,17 @@ export async function handleServiceTool(name: string, args: unknown) {
           },
         ],
       };
-    }
+    },
+  }),
 
-    case 'stop_service': {
-      const schema = z.object({
-        projectName: z.string().min(1),
-        serviceName: z.string().min(1),
-      });
-      const params = schema.parse(args);
+  stop_service: defineTool({
+    name: 'stop_service',
+    description: 'Stop a running service',
+    category: 'services',
+    annotations: { readOnlyHint: false, destructiveHint: false, idempotentHint: true },
+    inputSchema: z.object(serviceTargetShape),
+    handler: async (params, context) => {
+      const client = getClient(context.instance);
 
       const result = await client.stopService(params.projectName, params.serviceName);
       return {
@@ -721,14 +215,17 @@ export async function handleServiceTool(name: string, args: unknown) {
           },
         ],
       };
-    }
+    },
+  }),
 
-    case 'restart_service': {
-      const schema = z.object({
-        projectName: z.string().min(1),
-        serviceName: z.string().min(1),
-      });
-      const params = schema.parse(args);
+  restart_service: defineTool({
+    name: 'restart_service',
+    description: 'Restart a service',
+    category: 'services',
+    annotations: { readOnlyHint: false, destructiveHint: false },
+    inputSchema: z.object(serviceTargetShape),
+    handler: async (params, context) => {
+      const client = getClient(context.instance);
 
       const result = await client.restartService(params.projectName, params.serviceName);
       return {
@@ -743,16 +240,19 @@ export async function handleServiceTool(name: string, args: unknown) {
           },
         ],
       };
-    }
+    },
+  }),
 
-    case 'redeploy_service': {
-      const schema = z.object({
-        projectName: z.string().min(1),
-        serviceName: z.string().min(1),
-      });
-      const params = schema.parse(args);
+  redeploy_service: defineTool({
+    name: 'redeploy_service',
+    description: 'Trigger a new deployment for a service',
+    category: 'services',
+    annotations: { readOnlyHint: false, destructiveHint: false },
+    inputSchema: z.object(serviceTargetShape),
+    handler: async (params, context) => {
+      const client = getClient(context.instance);
 
-      const result = await client.deployService(params.projectName, params.serviceName) as any;
+      const result = await client.deployService(params.projectName, params.serviceName);
       return {
         content: [
           {
@@ -767,15 +267,28 @@ export async function handleServiceTool(name: string, args: unknown) {
           },
         ],
       };
-    }
+    },
+  }),
 
-    case 'destroy_service': {
-      const schema = z.object({
-        projectName: z.string().min(1),
-        serviceName: z.string().min(1),
-        confirm: z.literal(true),
-      });
-      const params = schema.parse(args);
+  destroy_service: defineTool({
+    name: 'destroy_service',
+    description: 'Delete a service (DESTRUCTIVE - cannot be undone). The first call returns a summary and a confirmation token; call again with the token to delete',
+    category: 'services',
+    annotations: { readOnlyHint: false, destructiveHint: true },
+    inputSchema: z.object({
+      projectName: z.string().min(1).describe('Name of the project'),
+      serviceName: z.string().min(1).describe('Name of the service to delete'),
+      confirmationToken: confirmationTokenSchema,
+    }),
+    handler: async (params, context) => {
+      const client = getClient(context.instance);
+
+      const pending = await requireConfirmation('destroy_service', params, context, () =>
+        summarizeService(client, params.projectName, params.serviceName)
+      );
+      if (pending) {
+        return pending;
+      }
 
       const result = await client.destroyAppService(params.projectName, params.serviceName);
       return {
@@ -790,15 +303,20 @@ export async function handleServiceTool(name: string, args: unknown) {
           },
         ],
       };
-    }
+    },
+  }),
 
-    case 'update_env': {
-      const schema = z.object({
-        projectName: z.string().min(1),
-        serviceName: z.string().min(1),
-        env: z.string(),
-      });
-      const params = schema.parse(args);
+  update_env: defineTool({
+    name: 'update_env',
+    description: 'Update environment variables for a service',
+    category: 'services',
+    annotations: { readOnlyHint: false, destructiveHint: true, idempotentHint: true },
+    inputSchema: z.object({
+      ...serviceTargetShape,
+      env: z.string().describe('Environment variables as KEY=VALUE pairs, separated by newlines'),
+    }),
+    handler: async (params, context) => {
+      const client = getClient(context.instance);
 
       const result = await client.updateEnv(params.projectName, params.serviceName, params.env);
       return {
@@ -813,31 +331,36 @@ export async function handleServiceTool(name: string, args: unknown) {
           },
         ],
       };
-    }
+    },
+  }),
 
-    case 'update_resources': {
-      const schema = z.object({
-        projectName: z.string().min(1),
-        serviceName: z.string().min(1),
-        memoryReservation: z.number().optional(),
-        memoryLimit: z.number().optional(),
-        cpuReservation: z.number().optional(),
-        cpuLimit: z.number().optional(),
-      }).refine(
-        (data) => {
-          return (
-            data.memoryReservation !== undefined ||
-            data.memoryLimit !== undefined ||
-            data.cpuReservation !== undefined ||
-            data.cpuLimit !== undefined
-          );
-        },
-        {
-          message: 'At least one resource parameter must be provided (memoryReservation, memoryLimit, cpuReservation, or cpuLimit)',
-          path: ['resources'],
-        }
-      );
-      const params = schema.parse(args);
+  update_resources: defineTool({
+    name: 'update_resources',
+    description: 'Update resource limits (memory/CPU) for a service',
+    category: 'services',
+    annotations: { readOnlyHint: false, destructiveHint: false, idempotentHint: true },
+    inputSchema: z.object({
+      ...serviceTargetShape,
+      memoryReservation: z.number().optional().describe('Memory reservation in MB'),
+      memoryLimit: z.number().optional().describe('Memory limit in MB'),
+      cpuReservation: z.number().optional().describe('CPU reservation (0.5 = 50% of one core)'),
+      cpuLimit: z.number().optional().describe('CPU limit (1.0 = one full core)'),
+    }).refine(
+      (data) => {
+        return (
+          data.memoryReservation !== undefined ||
+          data.memoryLimit !== undefined ||
+          data.cpuReservation !== undefined ||
+          data.cpuLimit !== undefined
+        );
+      },
+      {
+        message: 'At least one resource parameter must be provided (memoryReservation, memoryLimit, cpuReservation, or cpuLimit)',
+        path: ['resources'],
+      }
+    ),
+    handler: async (params, context) => {
+      const client = getClient(context.instance);
 
       const result = await client.updateResources(
         params.projectName,
@@ -859,14 +382,17 @@ export async function handleServiceTool(name: string, args: unknown) {
           },
         ],
       };
-    }
+    },
+  }),
 
-    case 'get_service_stats': {
-      const schema = z.object({
-        projectName: z.string().min(1),
-        serviceName: z.string().min(1),
-      });
-      const params = schema.parse(args);
+  get_service_stats: defineTool({
+    name: 'get_service_stats',
+    description: 'Get CPU, memory, and network statistics for a service',
+    category: 'services',
+    annotations: { readOnlyHint: true },
+    inputSchema: z.object(serviceTargetShape),
+    handler: async (params, context) => {
+      const client = getClient(context.instance);
 
       const result = await client.getServiceStats(params.projectName, params.serviceName);
       return {
@@ -877,20 +403,25 @@ export async function handleServiceTool(name: string, args: unknown) {
           },
         ],
       };
-    }
-
-    case 'get_service_logs': {
-      const schema = z.object({
-        projectName: z.string().min(1),
-        serviceName: z.string().min(1),
-        since: z.string().optional(),
-        until: z.string().optional(),
-        lines: z.number().min(1).max(10000).optional(),
-        timestamps: z.boolean().optional(),
-        level: z.array(z.enum(['debug', 'info', 'warn', 'error', 'fatal'])).optional(),
-        search: z.string().optional(),
-      });
-      const params = schema.parse(args);
+    },
+  }),
+
+  get_service_logs: defineTool({
+    name: 'get_service_logs',
+    description: 'Get logs for a service with filtering options',
+    category: 'services',
+    annotations: { readOnlyHint: true },
+    inputSchema: z.object({
+      ...serviceTargetShape,
+      since: z.string().optional().describe('ISO timestamp or RFC3339 string to get logs since this time (optional)'),
+      until: z.string().optional().describe('ISO timestamp or RFC3339 string to get logs until this time (optional)'),
+      lines: z.number().min(1).max(10000).optional().describe('Number of log lines to retrieve (default: 100, max: 10000)'),
+      timestamps: z.boolean().optional().describe('Include timestamps in log output (default: true)'),
+      level: z.array(logLevelSchema).optional().describe('Filter by log levels (optional)'),
+      search: z.string().optional().describe('Search term to filter log messages (optional)'),
+    }),
+    handler: async (params, context) => {
+      const client = getClient(context.instance);
 
       const logOptions = {
         since: params.since,
@@ -924,19 +455,24 @@ export async function handleServiceTool(name: string, args: unknown) {
           },
         ],
       };
-    }
-
-    case 'search_logs': {
-      const schema = z.object({
-        projectName: z.string().min(1),
-        serviceName: z.string().min(1),
-        query: z.string().min(1),
-        since: z.string().optional(),
-        until: z.string().optional(),
-        lines: z.number().min(1).max(10000).optional(),
-        level: z.array(z.enum(['debug', 'info', 'warn', 'error', 'fatal'])).optional(),
-      });
-      const params = schema.parse(args);
+    },
+  }),
+
+  search_logs: defineTool({
+    name: 'search_logs',
+    description: 'Search logs for a specific query string',
+    category: 'services',
+    annotations: { readOnlyHint: true },
+    inputSchema: z.object({
+      ...serviceTargetShape,
+      query: z.string().min(1).describe('Search query to find in log messages'),
+      since: z.string().optional().describe('ISO timestamp or RFC3339 string to search logs since this time (optional)'),
+      until: z.string().optional().describe('ISO timestamp or RFC3339 string to search logs until this time (optional)'),
+      lines: z.number().min(1).max(10000).optional().describe('Number of log lines to search through (default: 1000)'),
+      level: z.array(logLevelSchema).optional().describe('Filter by log levels (optional)'),
+    }),
+    handler: async (params, context) => {
+      const client = getClient(context.instance);
 
       const logOptions = {
         since: params.since,
@@ -969,17 +505,22 @@ export async function handleServiceTool(name: string, args: unknown) {
           },
         ],
       };
-    }
-
-    case 'get_log_stream_url': {
-      const schema = z.object({
-        projectName: z.string().min(1),
-        serviceName: z.string().min(1),
-        follow: z.boolean().default(true),
-        since: z.string().optional(),
-        lines: z.number().min(0).max(10000).default(100),
-      });
-      const params = schema.parse(args);
+    },
+  }),
+
+  get_log_stream_url: defineTool({
+    name: 'get_log_stream_url',
+    description: 'Get WebSocket URL for real-time log streaming',
+    category: 'services',
+    annotations: { readOnlyHint: true },
+    inputSchema: z.object({
+      ...serviceTargetShape,
+      follow: z.boolean().default(true).describe('Follow log stream in real-time (default: true)'),
+      since: z.string().optional().describe('ISO timestamp or RFC3339 string to stream logs since this time (optional)'),
+      lines: z.number().min(0).max(10000).default(100).describe('Number of past lines to include before streaming (default: 100)'),
+    }),
+    handler: async (params, context) => {
+      const client = getClient(context.instance);
 
       const logOptions = {
         follow: params.follow,
@@ -1018,13 +559,20 @@ ws.onmessage = (event) => {
           },
         ],
       };
-    }    case 'get_build_status': {
-      const schema = z.object({
-        projectName: z.string().min(1),
-        serviceName: z.string().min(1),
-        buildId: z.string().optional(),
-      });
-      const params = schema.parse(args);
+    },
+  }),
+
+  get_build_status: defineTool({
+    name: 'get_build_status',
+    description: 'Get the build status of a deployment',
+    category: 'services',
+    annotations: { readOnlyHint: true },
+    inputSchema: z.object({
+      ...serviceTargetShape,
+      buildId: z.string().optional().describe('Build ID (optional)'),
+    }),
+    handler: async (params, context) => {
+      const client = getClient(context.instance);
 
       const result = await client.getBuildStatus(params.projectName, params.serviceName, params.buildId);
       return {
@@ -1032,27 +580,32 @@ ws.onmessage = (event) => {
           {
             type: 'text' as const,
             text: JSON.stringify({
-              buildId: (result as any).id,
-              status: (result as any).status,
-              startTime: (result as any).startTime,
-              endTime: (result as any).endTime,
-              error: (result as any).error,
-              logs: (result as any).logs,
+              buildId: result.id,
+              status: result.status,
+              startTime: result.startTime,
+              endTime: result.endTime,
+              error: result.error,
+              logs: result.logs,
             }, null, 2),
           },
         ],
       };
-    }
+    },
+  }),
 
-    case 'wait_for_deploy': {
-      const schema = z.object({
-        projectName: z.string().min(1),
-        serviceName: z.string().min(1),
-        buildId: z.string().min(1),
-        timeout: z.number().optional(),
-        interval: z.number().optional(),
-      });
-      const params = schema.parse(args);
+  wait_for_deploy: defineTool({
+    name: 'wait_for_deploy',
+    description: 'Wait for deployment to complete with progress updates',
+    category: 'services',
+    annotations: { readOnlyHint: true },
+    inputSchema: z.object({
+      ...serviceTargetShape,
+      buildId: z.string().min(1).describe('Build ID from deploy response'),
+      timeout: z.number().optional().describe('Timeout in milliseconds (default: 300000 for 5 minutes)'),
+      interval: z.number().optional().describe('Polling interval in milliseconds (default: 5000)'),
+    }),
+    handler: async (params, context) => {
+      const client = getClient(context.instance);
 
       // Track progress
       const progressUpdates: string[] = [];
@@ -1069,25 +622,31 @@ ws.onmessage = (event) => {
           {
             type: 'text' as const,
             text: JSON.stringify({
-              buildId: (result as any).id,
-              finalStatus: (result as any).status,
-              success: (result as any).status === 'success',
-              startTime: (result as any).startTime,
-              endTime: (result as any).endTime,
-              error: (result as any).error,
+              buildId: result.id,
+              finalStatus: result.status,
+              success: result.status === 'success',
+              startTime: result.startTime,
+              endTime: result.endTime,
+              error: result.error,
               progressUpdates,
-              duration: (result as any).endTime && (result as any).startTime
-                ? new Date((result as any).endTime).getTime() - new Date((result as any).startTime).getTime()
+              duration: result.endTime && result.startTime
+                ? new Date(result.endTime).getTime() - new Date(result.startTime).getTime()
                 : null,
             }, null, 2),
           },
         ],
       };
-    }
+    },
+  }),
 
-    case 'service_restart_easypanel': {
-      const schema = z.object({});
-      const params = schema.parse(args);
+  service_restart_easypanel: defineTool({
+    name: 'service_restart_easypanel',
+    description: 'Restart EasyPanel daemon service',
+    category: 'services',
+    annotations: { readOnlyHint: false, destructiveHint: false },
+    inputSchema: z.object({}),
+    handler: async (_params, context) => {
+      const client = getClient(context.instance);
 
       const result = await client.restartEasyPanelService();
       return {
@@ -1102,11 +661,17 @@ ws.onmessage = (event) => {
           },
         ],
       };
-    }
+    },
+  }),
 
-    case 'service_restart_traefik': {
-      const schema = z.object({});
-      const params = schema.parse(args);
+  service_restart_traefik: defineTool({
+    name: 'service_restart_traefik',
+    description: 'Restart Traefik proxy service',
+    category: 'services',
+    annotations: { readOnlyHint: false, destructiveHint: false },
+    inputSchema: z.object({}),
+    handler: async (_params, context) => {
+      const client = getClient(context.instance);
 
       const result = await client.restartTraefikService();
       return {
@@ -1121,13 +686,19 @@ ws.onmessage = (event) => {
           },
         ],
       };
-    }
+    },
+  }),
 
-    case 'service_get_status': {
-      const schema = z.object({
-        serviceName: z.enum(['easypanel', 'traefik', 'docker', 'nginx']),
-      });
-      const params = schema.parse(args);
+  service_get_status: defineTool({
+    name: 'service_get_status',
+    description: 'Check service health status',
+    category: 'services',
+    annotations: { readOnlyHint: true },
+    inputSchema: z.object({
+      serviceName: systemServiceSchema.describe('Name of the service to check (easypanel, traefik, docker, nginx)'),
+    }),
+    handler: async (params, context) => {
+      const client = getClient(context.instance);
 
       const result = await client.getServiceStatus(params.serviceName);
       return {
@@ -1142,15 +713,21 @@ ws.onmessage = (event) => {
           },
         ],
       };
-    }
+    },
+  }),
 
-    case 'service_get_logs': {
-      const schema = z.object({
-        serviceName: z.enum(['easypanel', 'traefik', 'docker', 'nginx']),
-        lines: z.number().min(1).max(1000).optional(),
-        follow: z.boolean().optional(),
-      });
-      const params = schema.parse(args);
+  service_get_logs: defineTool({
+    name: 'service_get_logs',
+    description: 'Fetch system service logs',
+    category: 'services',
+    annotations: { readOnlyHint: true },
+    inputSchema: z.object({
+      serviceName: systemServiceSchema.describe('Name of the service (easypanel, traefik, docker, nginx)'),
+      lines: z.number().min(1).max(1000).optional().describe('Number of log lines to retrieve (default: 100, max: 1000)'),
+      follow: z.boolean().optional().describe('Follow log stream in real-time (default: false)'),
+    }),
+    handler: async (params, context) => {
+      const client = getClient(context.instance);
 
       const result = await client.getSystemServiceLogs(params.serviceName, {
         lines: params.lines || 100,
@@ -1170,52 +747,6 @@ ws.onmessage = (event) => {
           },
         ],
       };
-    }
-
-    default:
-      throw new Error(`Unknown service tool: ${name}`);
-    }
-  } catch (error) {
-    // Handle validation errors specifically
-    if (error instanceof ValidationError) {
-      return {
-        content: [
-          {
-            type: 'text' as const,
-            text: JSON.stringify({
-              success: false,
-              error: 'Validation Error',
-              message: error.message,
-              field: error.field,
-              value: error.value,
-            }, null, 2),
-          },
-        ],
-      };
-    }
-
-    // Handle Zod validation errors
-    if (error instanceof z.ZodError) {
-      return {
-        content: [
-          {
-            type: 'text' as const,
-            text: JSON.stringify({
-              success: false,
-              error: 'Input Validation Error',
-              message: 'Invalid input parameters',
-              details: error.errors.map(err => ({
-                field: err.path.join('.'),
-                message: err.message,
-                code: err.code,
-              })),
-            }, null, 2),
-          },
-        ],
-      };
-    }
-
-    // Re-throw other errors
-    throw error;
-  }
-}
+    },
+  }),
+};
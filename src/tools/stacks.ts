@@ -0,0 +1,633 @@
+/**
+ * Stack Manifest Tools
+ * stack_plan compares a manifest with the live project; stack_apply makes the calls that close the gap;
+ * export_project writes the manifest of a live project; import_compose applies a translated docker-compose file
+ */
+
+import { writeFile } from 'node:fs/promises';
+import { resolve } from 'node:path';
+import { z } from 'zod';
+import { EasyPanelClient, getClient } from '../api/client.js';
+import type { ProcedureOutput } from '../api/procedures.js';
+import { loadComposeFile, translateCompose } from '../utils/composeFile.js';
+import { diffEnvVars } from '../utils/envVars.js';
+import { hasUrlCredentials, isSecretKey } from '../utils/redaction.js';
+import {
+  DEFAULT_DATABASE_IMAGES,
+  formatEnv,
+  loadStackManifest,
+  StackDatabase,
+  StackDomain,
+  stackManifestSchema,
+  StackManifest,
+  StackResources,
+  StackSource,
+  STACK_VARIABLE_PREFIX,
+  stringifyStackManifest,
+} from '../utils/stackManifest.js';
+import { ValidationError } from '../utils/validation.js';
+import { defineTool } from './registry.js';
+
+type StackAction =
+  | 'createProject'
+  | 'createAppService'
+  | 'updateSourceImage'
+  | 'updateSourceGit'
+  | 'updateSourceDockerfile'
+  | 'updateEnv'
+  | 'updateResources'
+  | 'updateDomains'
+  | 'createPostgres'
+  | 'createMySQL'
+  | 'createRedis'
+  | 'createMongo'
+  | 'createMariaDB';
+
+/**
+ * One call stack_apply will make, with a description of what it changes
+ */
+interface StackChange {
+  action: StackAction;
+  service?: string;
+  diff: Record<string, unknown>;
+  apply: (client: EasyPanelClient) => Promise<unknown>;
+}
+
+interface StackPlan {
+  instance: string;
+  project: string;
+  changes: StackChange[];
+  // Live services the manifest does not mention; they are left alone
+  unmanaged: Array<{ name: string; type: string }>;
+  warnings: string[];
+}
+
+const RESOURCE_FIELDS = ['memoryReservation', 'memoryLimit', 'cpuReservation', 'cpuLimit'] as const;
+
+const CREATE_DATABASE_ACTIONS: Record<StackDatabase['type'], StackAction> = {
+  postgres: 'createPostgres',
+  mysql: 'createMySQL',
+  redis: 'createRedis',
+  mongo: 'createMongo',
+  mariadb: 'createMariaDB',
+};
+
+const SOURCE_ACTIONS: Record<StackSource['type'], StackAction> = {
+  image: 'updateSourceImage',
+  git: 'updateSourceGit',
+  dockerfile: 'updateSourceDockerfile',
+};
+
+/**
+ * Env lines as a map; comments and blank lines are not variables
+ */
+function parseEnv(env: string | undefined): Record<string, string> {
+  const vars: Record<string, string> = {};
+  for (const line of (env || '').split('\n')) {
+    const trimmed = line.trim();
+    if (!trimmed || trimmed.startsWith('#') || !trimmed.includes('=')) {
+      continue;
+    }
+    const index = trimmed.indexOf('=');
+    vars[trimmed.slice(0, index)] = trimmed.slice(index + 1);
+  }
+  return vars;
+}
+
+type LiveService = ProcedureOutput<'projects.inspectProject'>['services'][number];
+
+/**
+ * Source in a comparable one-line form; registry credentials are left out
+ */
+function describeSource(source: Partial<NonNullable<LiveService['source']>> | undefined): string | undefined {
+  switch (source?.type) {
+    case 'image':
+      return `image ${source.image}`;
+    case 'git':
+      return `git ${source.repo}@${source.ref ?? 'main'}:${source.path ?? '/'}`;
+    case 'dockerfile':
+      return `dockerfile ${source.repo}@${source.ref ?? 'main'}:${source.path ?? '/'} (${source.dockerfile ?? source.dockerfilePath ?? './Dockerfile'})`;
+    default:
+      return undefined;
+  }
+}
+
+function applySource(projectName: string, serviceName: string, source: StackSource) {
+  return (client: EasyPanelClient) => {
+    switch (source.type) {
+      case 'image':
+        return client.deployFromImage(projectName, serviceName, source.image, source.username, source.password);
+      case 'git':
+        return client.deployFromGit(projectName, serviceName, source.repo, source.ref, source.path);
+      case 'dockerfile':
+        return client.deployFromDockerfile(projectName, serviceName, source.repo, source.ref, source.path, source.dockerfile);
+    }
+  };
+}
+
+function diffResources(live: Record<string, unknown>, desired: StackResources) {
+  const diff: Record<string, { from: unknown; to: number }> = {};
+  for (const field of RESOURCE_FIELDS) {
+    if (desired[field] !== undefined && live[field] !== desired[field]) {
+      diff[field] = { from: live[field] ?? null, to: desired[field]! };
+    }
+  }
+  return diff;
+}
+
+/**
+ * Desired domain list, keeping the ids and settings of domains that already exist
+ */
+function diffDomains(live: Array<{ host: string; id?: string; https?: boolean; port?: number }>, desired: StackDomain[]) {
+  const liveByHost = new Map(live.map(domain => [domain.host, domain]));
+  const desiredHosts = new Set(desired.map(domain => domain.host));
+
+  const domains = desired.map(domain => {
+    const existing = liveByHost.get(domain.host);
+    const https = domain.https ?? existing?.https;
+    const port = domain.port ?? existing?.port;
+    return {
+      host: domain.host,
+      ...(existing?.id ? { id: existing.id } : {}),
+      ...(https !== undefined ? { https } : {}),
+      ...(port !== undefined ? { port } : {}),
+    };
+  });
+
+  const diff = {
+    added: desired.filter(domain => !liveByHost.has(domain.host)).map(domain => domain.host),
+    removed: live.filter(domain => !desiredHosts.has(domain.host)).map(domain => domain.host),
+    changed: desired.filter(domain => {
+      const existing = liveByHost.get(domain.host);
+      return existing && ((domain.https !== undefined && domain.https !== existing.https) || (domain.port !== undefined && domain.port !== existing.port));
+    }).map(domain => domain.host),
+  };
+
+  return { domains, diff };
+}
+
+function hasChanges(diff: Record<string, unknown[]>): boolean {
+  return Object.values(diff).some(items => items.length > 0);
+}
+
+function createDatabase(projectName: string, serviceName: string, database: StackDatabase) {
+  return (client: EasyPanelClient) => {
+    switch (database.type) {
+      case 'postgres':
+        return client.createPostgres(projectName, serviceName, database.databaseName, database.user, database.password, database.image);
+      case 'mysql':
+        return client.createMySQL(projectName, serviceName, database.databaseName, database.user, database.password, database.rootPassword, database.image);
+      case 'redis':
+        return client.createRedis(projectName, serviceName, database.password, database.image);
+      case 'mongo':
+        return client.createMongo(projectName, serviceName, database.databaseName, database.user, database.password, database.image);
+      case 'mariadb':
+        return client.createMariaDB(
+          projectName, serviceName, database.databaseName, database.user, database.password, database.rootPassword, database.image
+        );
+    }
+  };
+}
+
+/**
+ * Compare a manifest with live state (inspectProject, listDomains) and list the calls that converge them
+ */
+async function planStack(client: EasyPanelClient, manifest: StackManifest): Promise<StackPlan> {
+  const projectName = manifest.project;
+  const plan: StackPlan = { instance: client.instanceName, project: projectName, changes: [], unmanaged: [], warnings: [] };
+
+  const { projects } = await client.listProjects();
+  const projectExists = projects.some(project => project.name === projectName);
+  const live = projectExists ? (await client.inspectProject(projectName)).services : [];
+
+  if (!projectExists) {
+    plan.changes.push({ action: 'createProject', diff: { project: projectName }, apply: c => c.createProject(projectName) });
+  }
+
+  // Databases first, so app services can reach them once deployed
+  for (const [serviceName, database] of Object.entries(manifest.databases)) {
+    const existing = live.find(service => service.name === serviceName);
+    if (!existing) {
+      plan.changes.push({
+        action: CREATE_DATABASE_ACTIONS[database.type],
+        service: serviceName,
+        diff: { type: database.type, image: database.image },
+        apply: createDatabase(projectName, serviceName, database),
+      });
+    } else if (existing.type !== database.type) {
+      plan.warnings.push(`'${serviceName}' is a ${existing.type} service, not ${database.type}; it is left unchanged`);
+    }
+  }
+
+  for (const [serviceName, desired] of Object.entries(manifest.services)) {
+    const existing = live.find(service => service.name === serviceName);
+    if (existing && existing.type !== 'app') {
+      plan.warnings.push(`'${serviceName}' is a ${existing.type} service, not an app service; it is left unchanged`);
+      continue;
+    }
+
+    if (!existing) {
+      plan.changes.push({
+        action: 'createAppService',
+        service: serviceName,
+        diff: { type: 'app' },
+        apply: c => c.createAppService(projectName, serviceName),
+      });
+    }
+
+    if (desired.source && describeSource(existing?.source) !== describeSource(desired.source)) {
+      plan.changes.push({
+        action: SOURCE_ACTIONS[desired.source.type],
+        service: serviceName,
+        diff: { from: describeSource(existing?.source) ?? null, to: describeSource(desired.source) },
+        apply: applySource(projectName, serviceName, desired.source),
+      });
+    }
+
+    if (desired.env) {
+      const diff = diffEnvVars(parseEnv(existing?.env), desired.env);
+      if (hasChanges(diff)) {
+        const env = formatEnv(desired.env);
+        plan.changes.push({ action: 'updateEnv', service: serviceName, diff, apply: c => c.updateEnv(projectName, serviceName, env) });
+      }
+    }
+
+    if (desired.resources) {
+      const liveResources: Record<string, unknown> = existing?.resources ?? {};
+      const diff = diffResources(liveResources, desired.resources);
+      if (Object.keys(diff).length > 0) {
+        const resources = { ...liveResources, ...desired.resources } as Record<string, number | undefined>;
+        plan.changes.push({
+          action: 'updateResources',
+          service: serviceName,
+          diff,
+          apply: c => c.updateResources(
+            projectName, serviceName, resources.memoryReservation, resources.memoryLimit, resources.cpuReservation, resources.cpuLimit
+          ),
+        });
+      }
+    }
+
+    if (desired.domains) {
+      const liveDomains = existing ? await client.listDomains(projectName, serviceName) : [];
+      const { domains, diff } = diffDomains(liveDomains, desired.domains);
+      if (hasChanges(diff)) {
+        plan.changes.push({ action: 'updateDomains', service: serviceName, diff, apply: c => c.updateDomains(projectName, serviceName, domains) });
+      }
+    }
+  }
+
+  const declared = new Set([...Object.keys(manifest.services), ...Object.keys(manifest.databases)]);
+  plan.unmanaged = live.filter(service => !declared.has(service.name)).map(service => ({ name: service.name, type: service.type }));
+
+  return plan;
+}
+
+/**
+ * The plan as tools report it: the diff of each change without its apply function
+ */
+function describePlan(plan: StackPlan) {
+  return {
+    instance: plan.instance,
+    project: plan.project,
+    inSync: plan.changes.length === 0,
+    changes: plan.changes.map(({ action, service, diff }) => ({ action, ...(service ? { service } : {}), diff })),
+    unmanaged: plan.unmanaged,
+    warnings: plan.warnings,
+  };
+}
+
+interface StackApplyResult {
+  failed: boolean;
+  results: Array<{ action: StackAction | 'deployService'; service?: string; status: 'applied' | 'failed' | 'skipped'; error?: string }>;
+  deployed: string[];
+}
+
+/**
+ * Make the calls of a plan in order, then deploy the app services that changed if asked to
+ */
+async function applyPlan(client: EasyPanelClient, plan: StackPlan, manifest: StackManifest, deploy: boolean): Promise<StackApplyResult> {
+  const results: StackApplyResult['results'] = [];
+  let failed = false;
+
+  // Later changes build on earlier ones (a service must exist before its env is set), so stop at the first failure
+  for (const change of plan.changes) {
+    if (failed) {
+      results.push({ action: change.action, service: change.service, status: 'skipped' });
+      continue;
+    }
+    try {
+      await change.apply(client);
+      results.push({ action: change.action, service: change.service, status: 'applied' });
+    } catch (error) {
+      failed = true;
+      results.push({ action: change.action, service: change.service, status: 'failed', error: error instanceof Error ? error.message : String(error) });
+    }
+  }
+
+  const deployed: string[] = [];
+  if (deploy && !failed) {
+    const changedServices = new Set(plan.changes.map(change => change.service).filter(Boolean) as string[]);
+    // Deploys do not depend on each other, so one failing does not stop the rest
+    for (const serviceName of Object.keys(manifest.services).filter(name => changedServices.has(name))) {
+      try {
+        await client.deployService(manifest.project, serviceName);
+        deployed.push(serviceName);
+        results.push({ action: 'deployService', service: serviceName, status: 'applied' });
+      } catch (error) {
+        failed = true;
+        results.push({ action: 'deployService', service: serviceName, status: 'failed', error: error instanceof Error ? error.message : String(error) });
+      }
+    }
+  }
+
+  return { failed, results, deployed };
+}
+
+// ==================== EXPORT ====================
+
+interface ProjectExport {
+  manifest: StackManifest;
+  // ${VAR} references that stand in for masked secrets; they must be set before the manifest is applied
+  variables: string[];
+  // Services a manifest cannot describe
+  skipped: Array<{ name: string; type: string }>;
+  warnings: string[];
+}
+
+/**
+ * Reference name for a masked value, e.g. STACK_WEB_DATABASE_URL for DATABASE_URL of service web.
+ * The prefix lets stack_apply read it from the server environment.
+ */
+function secretVariable(serviceName: string, key: string): string {
+  return `${STACK_VARIABLE_PREFIX}${serviceName}_${key}`.toUpperCase().replace(/[^A-Z0-9_]/g, '_');
+}
+
+function positiveNumber(value: unknown): number | undefined {
+  return typeof value === 'number' && value > 0 ? value : undefined;
+}
+
+/**
+ * Describe every service of a live project (inspectProject) as a manifest. With maskSecrets, secret
+ * env values, registry passwords and database passwords become ${VAR} references.
+ */
+async function exportProject(client: EasyPanelClient, projectName: string, maskSecrets: boolean): Promise<ProjectExport> {
+  const { services } = await client.inspectProject(projectName);
+  const result: ProjectExport = { manifest: { project: projectName, services: {}, databases: {} }, variables: [], skipped: [], warnings: [] };
+
+  // Live value, or a reference when masking is on or the value cannot be read
+  const secret = (serviceName: string, key: string, value: unknown): string => {
+    if (!maskSecrets && typeof value === 'string' && value) {
+      return value;
+    }
+    const name = secretVariable(serviceName, key);
+    result.variables.push(name);
+    return `\${${name}}`;
+  };
+
+  for (const service of services) {
+    const serviceName = service.name;
+
+    if (service.type === 'app') {
+      const exported: StackManifest['services'][string] = {};
+      const source = service.source;
+
+      if (source?.type === 'image' && source.image) {
+        exported.source = {
+          type: 'image',
+          image: source.image,
+          ...(source.username ? { username: source.username } : {}),
+          ...(source.password ? { password: secret(serviceName, 'REGISTRY_PASSWORD', source.password) } : {}),
+        };
+      } else if ((source?.type === 'git' || source?.type === 'dockerfile') && source.repo) {
+        const git = { repo: source.repo, ref: source.ref ?? 'main', path: source.path ?? '/' };
+        exported.source = source.type === 'git'
+          ? { type: 'git', ...git }
+          : { type: 'dockerfile', ...git, dockerfile: source.dockerfile ?? source.dockerfilePath ?? './Dockerfile' };
+      }
+
+      const env = parseEnv(service.env);
+      if (Object.keys(env).length > 0) {
+        exported.env = Object.fromEntries(Object.entries(env).map(([key, value]) =>
+          [key, maskSecrets && (isSecretKey(key) || hasUrlCredentials(value)) ? secret(serviceName, key, value) : value]
+        ));
+      }
+
+      // EasyPanel stores 0 for "no limit", which a manifest expresses by leaving the field out
+      const resources = Object.fromEntries(RESOURCE_FIELDS
+        .map(field => [field, positiveNumber(service.resources?.[field])])
+        .filter(([, value]) => value !== undefined));
+      if (Object.keys(resources).length > 0) {
+        exported.resources = resources;
+      }
+
+      const domains = service.domains ?? [];
+      if (domains.length > 0) {
+        exported.domains = domains.map(domain => ({
+          host: domain.host,
+          ...(typeof domain.https === 'boolean' ? { https: domain.https } : {}),
+          ...(positiveNumber(domain.port) ? { port: domain.port } : {}),
+        }));
+      }
+
+      result.manifest.services[serviceName] = exported;
+      continue;
+    }
+
+    if (!(service.type in DEFAULT_DATABASE_IMAGES)) {
+      result.skipped.push({ name: serviceName, type: service.type });
+      continue;
+    }
+
+    // Depending on the EasyPanel version, credentials are top-level fields or grouped under "credentials"
+    const type = service.type as StackDatabase['type'];
+    const credentials = { ...service, ...(service.credentials ?? {}) };
+    const image: string = credentials.image ?? DEFAULT_DATABASE_IMAGES[type];
+    const password = secret(serviceName, 'PASSWORD', credentials.password);
+    if (type === 'redis') {
+      result.manifest.databases[serviceName] = { type, image, password };
+      continue;
+    }
+
+    if (!credentials.databaseName || !credentials.user) {
+      result.warnings.push(`The database name or user of '${serviceName}' could not be read; the service name is used instead`);
+    }
+    const database = { image, databaseName: credentials.databaseName ?? serviceName, user: credentials.user ?? serviceName, password };
+    result.manifest.databases[serviceName] = type === 'mysql' || type === 'mariadb'
+      ? { type, ...database, rootPassword: secret(serviceName, 'ROOT_PASSWORD', credentials.rootPassword) }
+      : { type, ...database };
+  }
+
+  // What stack_apply reads back must pass the same validation
+  const parsed = stackManifestSchema.safeParse(result.manifest);
+  if (!parsed.success) {
+    const issues = parsed.error.issues.map(issue => `${issue.path.join('.')}: ${issue.message}`);
+    throw new Error(`Project '${projectName}' cannot be described by a stack manifest: ${issues.join('; ')}`);
+  }
+  return result;
+}
+
+const manifestInputSchema = {
+  manifest: z.string().min(1).optional().describe('Stack manifest as YAML or JSON text'),
+  manifestPath: z.string().min(1).optional().describe('Path of a YAML or JSON manifest file on the machine running the MCP server'),
+  variables: z.record(z.string()).optional().describe(`Values of the \${VAR} references in the manifest; server environment variables named ${STACK_VARIABLE_PREFIX}* are used for the rest`),
+};
+
+export const stackTools = {
+  stack_plan: defineTool({
+    name: 'stack_plan',
+    description: 'Compare a YAML or JSON stack manifest (project, app services with source/env/resources/domains, databases) with the live project and show the changes stack_apply would make',
+    category: 'projects',
+    annotations: { readOnlyHint: true },
+    inputSchema: z.object(manifestInputSchema),
+    handler: async (params, context) => {
+      const client = getClient(context.instance);
+      const manifest = await loadStackManifest(params);
+      const plan = await planStack(client, manifest);
+
+      return {
+        content: [
+          {
+            type: 'text' as const,
+            text: JSON.stringify(describePlan(plan), null, 2),
+          },
+        ],
+      };
+    },
+  }),
+
+  stack_apply: defineTool({
+    name: 'stack_apply',
+    description: 'Apply a YAML or JSON stack manifest: create missing services and databases and update sources, env, resources and domains that differ. Services missing from the manifest are left alone. Run stack_plan first to review the changes',
+    category: 'projects',
+    annotations: { readOnlyHint: false, destructiveHint: true, idempotentHint: true },
+    inputSchema: z.object({
+      ...manifestInputSchema,
+      deploy: z.boolean().default(false).describe('Deploy every app service that changed once all changes are applied'),
+    }),
+    handler: async (params, context) => {
+      const client = getClient(context.instance);
+      const manifest = await loadStackManifest(params);
+      const plan = await planStack(client, manifest);
+
+      const { failed, results, deployed } = await applyPlan(client, plan, manifest, params.deploy);
+
+      return {
+        content: [
+          {
+            type: 'text' as const,
+            text: JSON.stringify({
+              success: !failed,
+              message: plan.changes.length === 0
+                ? `Project '${manifest.project}' already matches the manifest`
+                : `${results.filter(result => result.status === 'applied' && result.action !== 'deployService').length} of ${plan.changes.length} change(s) applied to project '${manifest.project}'`,
+              ...describePlan(plan),
+              results,
+              ...(params.deploy ? { deployed } : {}),
+            }, null, 2),
+          },
+        ],
+      };
+    },
+  }),
+
+  export_project: defineTool({
+    name: 'export_project',
+    description: 'Export a live project as a YAML or JSON stack manifest: every app service with its source, env, resources and domains, and every database with its type and image. Secrets become ${VAR} references unless maskSecrets is false. The result can seed another environment through stack_apply',
+    category: 'projects',
+    // Not read-only: outputPath writes a file on the machine running the server
+    annotations: { readOnlyHint: false, destructiveHint: false, idempotentHint: false },
+    inputSchema: z.object({
+      projectName: z.string().min(1).describe('Name of the project to export'),
+      format: z.enum(['yaml', 'json']).default('yaml').describe('Manifest format (default: yaml)'),
+      maskSecrets: z.boolean().default(true).describe('Replace passwords and secret env values with ${VAR} references (default: true)'),
+      outputPath: z.string().min(1).optional().describe('Also write the manifest to this new file on the machine running the MCP server; existing files are not overwritten'),
+    }),
+    handler: async (params, context) => {
+      const client = getClient(context.instance);
+      const exported = await exportProject(client, params.projectName, params.maskSecrets);
+      const manifest = stringifyStackManifest(
+        exported.manifest,
+        params.format,
+        `Exported from project ${params.projectName} (instance ${client.instanceName}) on ${new Date().toISOString()}`
+      );
+
+      let path: string | undefined;
+      if (params.outputPath) {
+        path = resolve(params.outputPath);
+        try {
+          // The file can hold passwords when maskSecrets is false
+          await writeFile(path, manifest, { encoding: 'utf8', mode: 0o600, flag: 'wx' });
+        } catch (error) {
+          if ((error as NodeJS.ErrnoException).code === 'EEXIST') {
+            throw new ValidationError(`${path} already exists; remove it or choose another outputPath`, 'outputPath', params.outputPath);
+          }
+          throw new ValidationError(`Unable to write stack manifest ${path}: ${error instanceof Error ? error.message : String(error)}`, 'outputPath', params.outputPath);
+        }
+      }
+
+      return {
+        content: [
+          {
+            type: 'text' as const,
+            text: JSON.stringify({
+              success: true,
+              message: `Exported ${Object.keys(exported.manifest.services).length} service(s) and ${Object.keys(exported.manifest.databases).length} database(s) of project '${params.projectName}'${path ? ` to ${path}` : ''}`,
+              instance: client.instanceName,
+              project: params.projectName,
+              format: params.format,
+              ...(path ? { path } : {}),
+              variables: exported.variables,
+              skipped: exported.skipped,
+              warnings: exported.warnings,
+              manifest,
+            }, null, 2),
+          },
+        ],
+      };
+    },
+  }),
+
+  import_compose: defineTool({
+    name: 'import_compose',
+    description: 'Import a docker-compose file into a project: services with an image become app services with their environment and deploy.resources, official postgres, mysql, mariadb, mongo and redis images become EasyPanel databases. Settings that cannot be translated (volumes, networks, ports, builds...) are listed in the result',
+    category: 'projects',
+    annotations: { readOnlyHint: false, destructiveHint: true, idempotentHint: true },
+    inputSchema: z.object({
+      projectName: z.string().min(1).optional().describe('Project to import into, created if missing (default: the compose "name")'),
+      compose: z.string().min(1).optional().describe('docker-compose YAML text'),
+      composePath: z.string().min(1).optional().describe('Path of a docker-compose file on the machine running the MCP server'),
+      variables: z.record(z.string()).optional().describe(`Values of the \${VAR} references in the compose file; server environment variables named ${STACK_VARIABLE_PREFIX}* are used for the rest`),
+      deploy: z.boolean().default(true).describe('Deploy the imported app services once they are configured (default: true)'),
+    }),
+    handler: async (params, context) => {
+      const client = getClient(context.instance);
+      const translation = translateCompose(await loadComposeFile(params), params.projectName, params.variables);
+      const manifest = translation.manifest;
+      const plan = await planStack(client, manifest);
+      const { failed, results, deployed } = await applyPlan(client, plan, manifest, params.deploy);
+
+      return {
+        content: [
+          {
+            type: 'text' as const,
+            text: JSON.stringify({
+              success: !failed,
+              message: (failed
+                ? `Import into project '${manifest.project}' stopped at a failed change`
+                : `Imported ${Object.keys(manifest.services).length} app service(s) and ${Object.keys(manifest.databases).length} database(s) into project '${manifest.project}'`)
+                + (translation.untranslated.length > 0 ? `; ${translation.untranslated.length} setting(s) could not be translated` : ''),
+              ...describePlan(plan),
+              results,
+              ...(params.deploy ? { deployed } : {}),
+              untranslated: translation.untranslated,
+              warnings: [...translation.warnings, ...plan.warnings],
+              // The translation as a stack manifest, to keep next to the compose file for stack_plan
+              manifest: stringifyStackManifest(manifest),
+            }, null, 2),
+          },
+        ],
+      };
+    },
+  }),
+};
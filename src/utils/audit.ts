@@ -0,0 +1,193 @@
+/**
+ * Audit Log
+ * Appends every EasyPanel mutation and system action to a JSONL file for post-incident review
+ */
+
+import { AsyncLocalStorage } from 'async_hooks';
+import { createReadStream, existsSync, mkdirSync } from 'fs';
+import { appendFile } from 'fs/promises';
+import { homedir } from 'os';
+import { dirname, join, resolve } from 'path';
+import { createInterface } from 'readline';
+import { getConfig } from '../config.js';
+import { redactSecrets } from './redaction.js';
+import { createLogger, getCorrelationId } from './logger.js';
+
+const logger = createLogger('Audit');
+
+export type AuditStatus = 'success' | 'error' | 'dry_run';
+
+export interface AuditEntry {
+  timestamp: string;
+  instance: string;
+  tool?: string;
+  procedure: string;
+  projectName?: string;
+  serviceName?: string;
+  args: unknown;
+  clientType?: string;
+  sessionId?: string;
+  correlationId?: string;
+  status: AuditStatus;
+  durationMs: number;
+  error?: string;
+}
+
+/**
+ * Who triggered the actions recorded while it is active
+ */
+export interface AuditContext {
+  tool: string;
+  sessionId?: string;
+  clientType?: string;
+}
+
+export interface AuditFilter {
+  projectName?: string;
+  serviceName?: string;
+  tool?: string;
+  instance?: string;
+  status?: AuditStatus;
+  since?: Date;
+  until?: Date;
+  limit?: number;
+}
+
+const DEFAULT_AUDIT_LOG = join(homedir(), '.easypanel-mcp', 'audit.jsonl');
+const DEFAULT_QUERY_LIMIT = 100;
+
+const auditContextStorage = new AsyncLocalStorage<AuditContext>();
+
+// Appends are chained so entries land in the order they were recorded
+let pendingWrite: Promise<void> = Promise.resolve();
+
+/**
+ * Path of the audit file, or undefined when auditing is disabled.
+ * EASYPANEL_AUDIT_LOG overrides the config file "audit.path"; "off" disables auditing.
+ */
+export function getAuditLogPath(): string | undefined {
+  const config = getConfig().audit || {};
+  const envPath = process.env.EASYPANEL_AUDIT_LOG;
+
+  if (envPath === 'off' || (!envPath && config.enabled === false)) {
+    return undefined;
+  }
+
+  return resolve(envPath || config.path || DEFAULT_AUDIT_LOG);
+}
+
+/**
+ * Run a function with its mutations attributed to a tool call
+ */
+export function withAuditContext<T>(context: AuditContext, fn: () => Promise<T>): Promise<T> {
+  return auditContextStorage.run(context, fn);
+}
+
+/**
+ * Project a procedure acts on; createProject names it "name" rather than "projectName"
+ */
+function targetProject(procedure: string, input: Record<string, unknown>): string | undefined {
+  if (typeof input.projectName === 'string') {
+    return input.projectName;
+  }
+  return procedure.startsWith('projects.') && typeof input.name === 'string' ? input.name : undefined;
+}
+
+/**
+ * Append an entry for a mutation or system action
+ */
+export function recordAudit(action: {
+  instance: string;
+  procedure: string;
+  input: unknown;
+  status: AuditStatus;
+  durationMs: number;
+  error?: string;
+}): void {
+  const path = getAuditLogPath();
+  if (!path) {
+    return;
+  }
+
+  const context = auditContextStorage.getStore();
+  const input = (action.input && typeof action.input === 'object' ? action.input : {}) as Record<string, unknown>;
+
+  const entry: AuditEntry = {
+    timestamp: new Date().toISOString(),
+    instance: action.instance,
+    tool: context?.tool,
+    procedure: action.procedure,
+    projectName: targetProject(action.procedure, input),
+    serviceName: typeof input.serviceName === 'string' ? input.serviceName : undefined,
+    args: redactSecrets(action.input ?? null),
+    clientType: context?.clientType,
+    sessionId: context?.sessionId,
+    correlationId: getCorrelationId(),
+    status: action.status,
+    durationMs: action.durationMs,
+    error: action.error,
+  };
+
+  pendingWrite = pendingWrite
+    .then(async () => {
+      if (!existsSync(dirname(path))) {
+        mkdirSync(dirname(path), { recursive: true });
+      }
+      await appendFile(path, `${JSON.stringify(entry)}\n`, { encoding: 'utf8', mode: 0o600 });
+    })
+    .catch(error => {
+      logger.error(`Failed to write audit entry to ${path}`, { error });
+    });
+}
+
+function matchesFilter(entry: AuditEntry, filter: AuditFilter): boolean {
+  const timestamp = Date.parse(entry.timestamp);
+
+  return (!filter.projectName || entry.projectName === filter.projectName)
+    && (!filter.serviceName || entry.serviceName === filter.serviceName)
+    && (!filter.tool || entry.tool === filter.tool)
+    && (!filter.instance || entry.instance === filter.instance)
+    && (!filter.status || entry.status === filter.status)
+    && (!filter.since || timestamp >= filter.since.getTime())
+    && (!filter.until || timestamp <= filter.until.getTime());
+}
+
+/**
+ * Read matching entries, newest first
+ */
+export async function queryAuditLog(filter: AuditFilter = {}): Promise<AuditEntry[]> {
+  const path = getAuditLogPath();
+  if (!path || !existsSync(path)) {
+    return [];
+  }
+
+  // Include entries that are still being written
+  await pendingWrite;
+
+  const limit = filter.limit ?? DEFAULT_QUERY_LIMIT;
+  const matches: AuditEntry[] = [];
+  const lines = createInterface({ input: createReadStream(path, { encoding: 'utf8' }), crlfDelay: Infinity });
+
+  for await (const line of lines) {
+    if (!line.trim()) {
+      continue;
+    }
+
+    let entry: AuditEntry;
+    try {
+      entry = JSON.parse(line);
+    } catch {
+      // Skip a line truncated by a crash mid-write
+      continue;
+    }
+
+    if (matchesFilter(entry, filter)) {
+      matches.push(entry);
+      if (matches.length > limit) {
+        matches.shift();
+      }
+    }
+  }
+
+  return matches.reverse();
+}
@@ -0,0 +1,129 @@
+/**
+ * Persistent cache stores
+ * Browser storage when running in a browser, otherwise JSON files on disk
+ */
+
+import { createHash, randomBytes } from 'crypto';
+import { mkdirSync, readFileSync, renameSync, rmSync, writeFileSync } from 'fs';
+import { homedir } from 'os';
+import { dirname, join, resolve } from 'path';
+import { getConfig } from '../config.js';
+
+export interface CacheStore {
+  // Where entries are kept, for log messages
+  readonly location: string;
+  load(): Record<string, unknown> | null;
+  save(entries: Record<string, unknown>): void;
+  clear(): void;
+}
+
+const DEFAULT_CACHE_DIR = join(homedir(), '.easypanel-mcp', 'cache');
+
+// Browser storage, typed locally because the server compiles without DOM types
+interface BrowserStorage {
+  getItem(key: string): string | null;
+  setItem(key: string, value: string): void;
+  removeItem(key: string): void;
+}
+
+function browserStorage(): { localStorage: BrowserStorage; sessionStorage: BrowserStorage } {
+  return (globalThis as unknown as { window: { localStorage: BrowserStorage; sessionStorage: BrowserStorage } }).window;
+}
+
+/**
+ * Directory for on-disk cache files, or undefined when persistence is disabled.
+ * EASYPANEL_CACHE_DIR overrides the config file "cache.directory"; "off" disables it.
+ */
+export function getCacheDirectory(): string | undefined {
+  const config = getConfig().cache || {};
+  const envDir = process.env.EASYPANEL_CACHE_DIR;
+
+  if (envDir === 'off' || (!envDir && config.persistent === false)) {
+    return undefined;
+  }
+
+  return resolve(envDir || config.directory || DEFAULT_CACHE_DIR);
+}
+
+/**
+ * Cache file for one instance and user, so accounts never see each other's data
+ */
+export function getCacheFilePath(directory: string, instanceName: string, baseUrl: string, user: string): string {
+  const scope = createHash('sha256').update(`${baseUrl}\n${user}`).digest('hex').slice(0, 16);
+  const safeInstance = instanceName.replace(/[^a-zA-Z0-9_-]/g, '_');
+  return join(directory, `${safeInstance}-${scope}.json`);
+}
+
+/**
+ * localStorage with a sessionStorage fallback
+ */
+export class BrowserCacheStore implements CacheStore {
+  constructor(private readonly storageKey: string) {}
+
+  get location(): string {
+    return `browser storage (${this.storageKey})`;
+  }
+
+  load(): Record<string, unknown> | null {
+    const stored = browserStorage().localStorage.getItem(this.storageKey) ||
+                   browserStorage().sessionStorage.getItem(this.storageKey);
+    return stored ? JSON.parse(stored) : null;
+  }
+
+  save(entries: Record<string, unknown>): void {
+    const serialized = JSON.stringify(entries);
+
+    // Try localStorage first, fallback to sessionStorage
+    try {
+      browserStorage().localStorage.setItem(this.storageKey, serialized);
+    } catch (e) {
+      // localStorage might be full, try sessionStorage
+      browserStorage().sessionStorage.setItem(this.storageKey, serialized);
+    }
+  }
+
+  clear(): void {
+    browserStorage().localStorage.removeItem(this.storageKey);
+    browserStorage().sessionStorage.removeItem(this.storageKey);
+  }
+}
+
+/**
+ * JSON file written atomically (temp file + rename) and readable only by the owner
+ */
+export class FileCacheStore implements CacheStore {
+  constructor(private readonly filePath: string) {}
+
+  get location(): string {
+    return this.filePath;
+  }
+
+  load(): Record<string, unknown> | null {
+    try {
+      return JSON.parse(readFileSync(this.filePath, 'utf8'));
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+        return null;
+      }
+      throw error;
+    }
+  }
+
+  save(entries: Record<string, unknown>): void {
+    mkdirSync(dirname(this.filePath), { recursive: true, mode: 0o700 });
+
+    // A reader never sees a half-written file: rename replaces it in one step
+    const tempPath = `${this.filePath}.${process.pid}.${randomBytes(4).toString('hex')}.tmp`;
+    try {
+      writeFileSync(tempPath, JSON.stringify(entries), { encoding: 'utf8', mode: 0o600 });
+      renameSync(tempPath, this.filePath);
+    } catch (error) {
+      rmSync(tempPath, { force: true });
+      throw error;
+    }
+  }
+
+  clear(): void {
+    rmSync(this.filePath, { force: true });
+  }
+}
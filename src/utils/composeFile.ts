@@ -0,0 +1,419 @@
+/**
+ * Compose Files
+ * Translates a docker-compose file into a stack manifest: services with an image become app
+ * services, official database images become EasyPanel databases, and settings without an
+ * EasyPanel equivalent are listed instead of dropped silently.
+ */
+
+import { randomBytes } from 'node:crypto';
+import { readFile } from 'node:fs/promises';
+import { resolve } from 'node:path';
+import { parse as parseYaml } from 'yaml';
+import { z } from 'zod';
+import {
+  DEFAULT_DATABASE_IMAGES,
+  lookupStackVariable,
+  StackDatabase,
+  StackManifest,
+  StackResources,
+  stackManifestSchema,
+  STACK_VARIABLE_PREFIX,
+} from './stackManifest.js';
+import { ValidationError } from './validation.js';
+
+/**
+ * A compose setting the import could not carry over
+ */
+export interface UntranslatedSetting {
+  service?: string;
+  // Dotted path of the setting, e.g. deploy.replicas
+  setting: string;
+  reason: string;
+}
+
+export interface ComposeTranslation {
+  manifest: StackManifest;
+  untranslated: UntranslatedSetting[];
+  warnings: string[];
+}
+
+type DatabaseType = StackDatabase['type'];
+
+// Only the shape the translation relies on is checked; values are validated as they are translated
+const composeServiceSchema = z.object({
+  image: z.unknown(),
+  build: z.unknown(),
+  environment: z.unknown(),
+  command: z.unknown(),
+  restart: z.unknown(),
+  deploy: z.object({
+    resources: z.record(z.record(z.unknown()).nullable()).optional(),
+  }).passthrough().nullish(),
+  mem_limit: z.unknown(),
+  mem_reservation: z.unknown(),
+  cpus: z.unknown(),
+}).passthrough();
+
+const composeFileSchema = z.object({
+  name: z.unknown(),
+  services: z.record(composeServiceSchema.nullable()),
+}).passthrough();
+
+type ComposeService = z.infer<typeof composeServiceSchema>;
+
+const REASONS: Record<string, string> = {
+  build: 'images are not built from a local context; push the image to a registry or deploy from git',
+  volumes: 'mounts are configured in the EasyPanel service settings',
+  networks: 'services of a project share one network and reach each other as <project>_<service>',
+  ports: 'app services are published through domains; other ports are configured in the service settings',
+  expose: 'services of a project reach each other on any port',
+  depends_on: 'services start independently; databases are created before app services',
+  links: 'services of a project reach each other as <project>_<service>',
+  env_file: 'env files are read on the Docker host; copy their variables into environment',
+  configs: 'configs are not supported by EasyPanel services',
+  secrets: 'use environment variables instead of Docker secrets',
+};
+
+const GENERIC_REASON = 'no EasyPanel equivalent';
+
+// Service keys the translation uses
+const APP_KEYS = new Set(['image', 'environment', 'deploy', 'mem_limit', 'mem_reservation', 'cpus', 'restart']);
+const DATABASE_KEYS = new Set(['image', 'environment', 'restart']);
+
+// Compose shorthand for units of memory sizes, in MB
+const MEMORY_UNITS: Record<string, number> = { b: 1 / (1024 * 1024), k: 1 / 1024, m: 1, g: 1024 };
+
+/**
+ * Substitute ${VAR}, ${VAR:-default}, ${VAR:?error} and $VAR like docker compose does, from the
+ * passed variables and STACK_* server variables instead of the whole environment
+ */
+function interpolate(value: unknown, variables: Record<string, string>, unset: Set<string>): unknown {
+  if (typeof value === 'string') {
+    return value.replace(
+      /\$(?:(\$)|\{([A-Za-z_][A-Za-z0-9_]*)(?:(:?[-?])([^}]*))?\}|([A-Za-z_][A-Za-z0-9_]*))/g,
+      (match, escaped: string | undefined, braced: string | undefined, operator: string | undefined, argument: string | undefined, bare: string | undefined) => {
+        if (escaped) {
+          return '$';
+        }
+        const name = (braced ?? bare)!;
+        const current = lookupStackVariable(name, variables);
+        const missing = current === undefined || (operator?.startsWith(':') === true && current === '');
+        if (!missing) {
+          return current!;
+        }
+        if (operator?.endsWith('-')) {
+          return argument ?? '';
+        }
+        if (operator?.endsWith('?')) {
+          throw new ValidationError(`Compose file requires ${name}: ${argument || 'it is not set'}`, 'compose');
+        }
+        unset.add(name);
+        return '';
+      }
+    );
+  }
+  if (Array.isArray(value)) {
+    return value.map(item => interpolate(item, variables, unset));
+  }
+  if (value && typeof value === 'object') {
+    return Object.fromEntries(Object.entries(value).map(([key, item]) => [key, interpolate(item, variables, unset)]));
+  }
+  return value;
+}
+
+/**
+ * Database type of an official image (postgres, library/postgres, docker.io/library/postgres)
+ */
+function databaseType(image: string): DatabaseType | undefined {
+  const repository = image.split('@')[0].replace(/:[^/:]+$/, '');
+  const match = repository.match(/^(?:(?:docker\.io\/)?library\/)?([a-z]+)$/);
+  return match && match[1] in DEFAULT_DATABASE_IMAGES ? match[1] as DatabaseType : undefined;
+}
+
+/**
+ * Memory size in MB from bytes or a compose size string ("512m", "1.5g", "256mb")
+ */
+function memoryMegabytes(value: unknown): number | undefined {
+  if (typeof value === 'number') {
+    return Math.round(value / (1024 * 1024));
+  }
+  const match = String(value).trim().match(/^(\d+(?:\.\d+)?)\s*([bkmg])?b?$/i);
+  return match ? Math.round(Number(match[1]) * MEMORY_UNITS[(match[2] ?? 'b').toLowerCase()]) : undefined;
+}
+
+function cpuCount(value: unknown): number | undefined {
+  const cpus = Number(value);
+  return Number.isFinite(cpus) && cpus > 0 ? cpus : undefined;
+}
+
+/**
+ * Compose lowercases project names and allows dots in service names; EasyPanel allows neither
+ */
+function easypanelName(name: string): string {
+  return name.toLowerCase().replace(/[^a-z0-9_-]/g, '-');
+}
+
+function generatePassword(): string {
+  return randomBytes(18).toString('base64url');
+}
+
+class Translator {
+  readonly untranslated: UntranslatedSetting[] = [];
+  readonly warnings: string[] = [];
+
+  skip(setting: string, service?: string, reason = REASONS[setting.split('.')[0]] ?? GENERIC_REASON): void {
+    this.untranslated.push({ ...(service ? { service } : {}), setting, reason });
+  }
+
+  /**
+   * environment as a map or a KEY=value list; variables without a value come from the shell of docker compose
+   */
+  environment(service: string, value: unknown): Record<string, string> {
+    const env: Record<string, string> = {};
+    const entries: Array<[string, unknown]> = Array.isArray(value)
+      ? value.map(item => {
+        const text = String(item);
+        const index = text.indexOf('=');
+        return index === -1 ? [text, null] : [text.slice(0, index), text.slice(index + 1)];
+      })
+      : Object.entries((value as Record<string, unknown>) ?? {});
+
+    for (const [key, item] of entries) {
+      if (item === null || item === undefined) {
+        this.skip(`environment.${key}`, service, 'takes its value from the shell that runs docker compose; set it explicitly');
+      } else {
+        env[key] = String(item);
+      }
+    }
+    return env;
+  }
+
+  /**
+   * deploy.resources limits and reservations, or the older mem_limit, mem_reservation and cpus keys
+   */
+  resources(service: string, definition: ComposeService): StackResources | undefined {
+    const resources: StackResources = {};
+    const set = (field: keyof StackResources, key: string, value: unknown, parse: (value: unknown) => number | undefined) => {
+      if (value === undefined) {
+        return;
+      }
+      const parsed = parse(value);
+      if (parsed === undefined || parsed <= 0) {
+        this.skip(key, service, `'${value}' is not a size or CPU count the import understands`);
+      } else {
+        resources[field] = parsed;
+      }
+    };
+
+    const { resources: deployResources, ...deploy } = definition.deploy ?? {};
+    Object.keys(deploy).forEach(key => this.skip(`deploy.${key}`, service));
+
+    for (const [kind, limits] of Object.entries(deployResources ?? {})) {
+      if (kind !== 'limits' && kind !== 'reservations') {
+        this.skip(`deploy.resources.${kind}`, service);
+        continue;
+      }
+      for (const [key, value] of Object.entries(limits ?? {})) {
+        const path = `deploy.resources.${kind}.${key}`;
+        if (key === 'memory') {
+          set(kind === 'limits' ? 'memoryLimit' : 'memoryReservation', path, value, memoryMegabytes);
+        } else if (key === 'cpus') {
+          set(kind === 'limits' ? 'cpuLimit' : 'cpuReservation', path, value, cpuCount);
+        } else {
+          this.skip(path, service);
+        }
+      }
+    }
+
+    set('memoryLimit', 'mem_limit', resources.memoryLimit === undefined ? definition.mem_limit : undefined, memoryMegabytes);
+    set('memoryReservation', 'mem_reservation', resources.memoryReservation === undefined ? definition.mem_reservation : undefined, memoryMegabytes);
+    set('cpuLimit', 'cpus', resources.cpuLimit === undefined ? definition.cpus : undefined, cpuCount);
+
+    return Object.keys(resources).length > 0 ? resources : undefined;
+  }
+
+  /**
+   * Credentials from the variables the official image reads; a missing password is generated
+   */
+  database(service: string, type: DatabaseType, image: string, env: Record<string, string>, command: unknown): StackDatabase {
+    const used = new Set<string>();
+    const read = (...keys: string[]) => {
+      const key = keys.find(candidate => env[candidate] !== undefined);
+      if (key) {
+        used.add(key);
+        return env[key];
+      }
+      return undefined;
+    };
+    const password = (...keys: string[]) => {
+      const value = read(...keys);
+      if (value) {
+        return value;
+      }
+      this.warnings.push(`'${service}' sets no ${keys[0]}; a random password was generated`);
+      return generatePassword();
+    };
+
+    let database: StackDatabase;
+    switch (type) {
+      case 'postgres': {
+        const user = read('POSTGRES_USER') ?? 'postgres';
+        database = { type, image, user, databaseName: read('POSTGRES_DB') ?? user, password: password('POSTGRES_PASSWORD') };
+        break;
+      }
+      case 'mysql':
+      case 'mariadb': {
+        // The MariaDB image also reads the MYSQL_* names
+        const prefixes = type === 'mariadb' ? ['MARIADB', 'MYSQL'] : ['MYSQL'];
+        const names = (suffix: string) => prefixes.map(prefix => `${prefix}_${suffix}`);
+        database = {
+          type,
+          image,
+          databaseName: read(...names('DATABASE')) ?? service,
+          user: read(...names('USER')) ?? service,
+          password: password(...names('PASSWORD')),
+          rootPassword: password(...names('ROOT_PASSWORD')),
+        };
+        break;
+      }
+      case 'mongo':
+        database = {
+          type,
+          image,
+          user: read('MONGO_INITDB_ROOT_USERNAME') ?? 'mongo',
+          databaseName: read('MONGO_INITDB_DATABASE') ?? service,
+          password: password('MONGO_INITDB_ROOT_PASSWORD'),
+        };
+        break;
+      case 'redis': {
+        // redis-server --requirepass <password>, as a string or a list
+        const args = Array.isArray(command) ? command.map(String) : typeof command === 'string' ? command.split(/\s+/) : [];
+        const index = args.indexOf('--requirepass');
+        const fromCommand = index !== -1 ? args[index + 1] : undefined;
+        database = { type, image, password: fromCommand || password('REDIS_PASSWORD') };
+        const otherArgs = args.filter((arg, position) => arg && arg !== 'redis-server' && (index === -1 || position < index || position > index + 1));
+        if (otherArgs.length > 0) {
+          this.skip('command', service, fromCommand ? 'only --requirepass is carried over' : GENERIC_REASON);
+        }
+        break;
+      }
+    }
+
+    Object.keys(env).filter(key => !used.has(key)).forEach(key => {
+      this.skip(`environment.${key}`, service, 'EasyPanel configures database services itself');
+    });
+    return database;
+  }
+}
+
+/**
+ * Translate compose YAML into a manifest for projectName (default: the compose "name")
+ */
+export function translateCompose(text: string, projectName?: string, variables: Record<string, string> = {}): ComposeTranslation {
+  let raw: unknown;
+  try {
+    raw = parseYaml(text);
+  } catch (error) {
+    throw new ValidationError(`Invalid compose file: ${error instanceof Error ? error.message : String(error)}`, 'compose');
+  }
+  if (!raw || typeof raw !== 'object' || Array.isArray(raw) || !('services' in raw)) {
+    throw new ValidationError('Invalid compose file: expected a "services" mapping', 'compose');
+  }
+
+  const unset = new Set<string>();
+  const interpolated = interpolate(raw, variables, unset);
+  // docker compose would substitute empty strings, which deploys services with blank settings
+  if (unset.size > 0) {
+    throw new ValidationError(
+      `Compose file references unset variables: ${Array.from(unset).join(', ')}. Pass them in variables, set them as ${STACK_VARIABLE_PREFIX}* environment variables of the server or give them a \${VAR:-default}`,
+      'compose'
+    );
+  }
+
+  const validated = composeFileSchema.safeParse(interpolated);
+  if (!validated.success) {
+    const issues = validated.error.issues.map(issue => `${issue.path.join('.') || '(root)'}: ${issue.message}`);
+    throw new ValidationError(`Invalid compose file: ${issues.join('; ')}`, 'compose');
+  }
+  const compose = validated.data;
+  const translator = new Translator();
+
+  const project = projectName ?? (typeof compose.name === 'string' ? easypanelName(compose.name) : undefined);
+  if (!project) {
+    throw new ValidationError('Pass projectName, or set "name" in the compose file', 'projectName');
+  }
+
+  for (const key of Object.keys(compose)) {
+    if (key !== 'services' && key !== 'name' && key !== 'version' && !key.startsWith('x-')) {
+      translator.skip(key);
+    }
+  }
+
+  const manifest: StackManifest = { project, services: {}, databases: {} };
+  for (const [composeName, definition] of Object.entries(compose.services)) {
+    const name = easypanelName(composeName);
+    if (name !== composeName) {
+      translator.warnings.push(`Service '${composeName}' is imported as '${name}'`);
+    }
+
+    if (typeof definition?.image !== 'string') {
+      translator.skip(definition?.build !== undefined ? 'build' : 'image', name, definition?.build !== undefined
+        ? `${REASONS.build}; the service was not imported`
+        : 'the service has no image and was not imported');
+      continue;
+    }
+
+    const env = translator.environment(name, definition.environment);
+    const type = databaseType(definition.image);
+    const handled = type ? DATABASE_KEYS : APP_KEYS;
+    for (const key of Object.keys(definition)) {
+      if (!handled.has(key) && !(type === 'redis' && key === 'command')) {
+        translator.skip(key, name);
+      }
+    }
+    if (definition.restart === 'no') {
+      translator.skip('restart', name, 'EasyPanel always restarts services');
+    }
+
+    if (type) {
+      manifest.databases[name] = translator.database(name, type, definition.image, env, definition.command);
+      continue;
+    }
+
+    const resources = translator.resources(name, definition);
+    manifest.services[name] = {
+      source: { type: 'image', image: definition.image },
+      ...(Object.keys(env).length > 0 ? { env } : {}),
+      ...(resources ? { resources } : {}),
+    };
+  }
+
+  const parsed = stackManifestSchema.safeParse(manifest);
+  if (!parsed.success) {
+    const issues = parsed.error.issues.map(issue => `${issue.path.join('.') || '(root)'}: ${issue.message}`);
+    throw new ValidationError(`Compose file cannot be imported: ${issues.join('; ')}`, 'compose');
+  }
+  return { manifest: parsed.data, untranslated: translator.untranslated, warnings: translator.warnings };
+}
+
+/**
+ * Compose text passed inline or read from a file on the server
+ */
+export async function loadComposeFile(source: { compose?: string; composePath?: string }): Promise<string> {
+  if (source.compose !== undefined && source.composePath !== undefined) {
+    throw new ValidationError('Pass either compose or composePath, not both', 'compose');
+  }
+  if (source.compose !== undefined) {
+    return source.compose;
+  }
+  if (!source.composePath) {
+    throw new ValidationError('Pass either compose (the YAML text) or composePath', 'compose');
+  }
+
+  const path = resolve(source.composePath);
+  try {
+    return await readFile(path, 'utf8');
+  } catch (error) {
+    throw new ValidationError(`Unable to read compose file ${path}: ${error instanceof Error ? error.message : String(error)}`, 'composePath', source.composePath);
+  }
+}
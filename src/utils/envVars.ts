@@ -0,0 +1,128 @@
+/**
+ * Env Vars
+ * Edits of KEY=value env text that keep comments, blank lines and the order of variables
+ */
+
+import { parseAndValidateEnvVars, validateEnvVar, ValidationError } from './validation.js';
+
+export type EnvDiff = {
+  added: string[];
+  removed: string[];
+  changed: string[];
+};
+
+/**
+ * Variable name of a line; comments and blank lines have none
+ */
+function lineKey(line: string): string | undefined {
+  const trimmed = line.trim();
+  return trimmed && !trimmed.startsWith('#') ? trimmed.split('=')[0] : undefined;
+}
+
+/**
+ * Rewrite a variable line, keeping its indentation
+ */
+function formatLine(line: string, key: string, value: string): string {
+  return `${line.match(/^\s*/)![0]}${key}=${value}`;
+}
+
+function lineValue(line: string): string {
+  const trimmed = line.trim();
+  return trimmed.slice(trimmed.indexOf('=') + 1);
+}
+
+/**
+ * Env text as lines; a trailing newline is kept apart so appended variables go before it
+ */
+function splitLines(env: string): { lines: string[]; trailing: string } {
+  if (!env) {
+    return { lines: [], trailing: '' };
+  }
+  return env.endsWith('\n') ? { lines: env.slice(0, -1).split('\n'), trailing: '\n' } : { lines: env.split('\n'), trailing: '' };
+}
+
+function validateAssignment(key: string, value: string): void {
+  if (/[\r\n]/.test(value)) {
+    throw new ValidationError(`Value of ${key} must be a single line`, key);
+  }
+  validateEnvVar(`${key}=${value}`);
+}
+
+/**
+ * Set variables: existing ones are changed where they are, new ones are appended in the order given
+ */
+export function setEnvVars(env: string, vars: Record<string, string>): { env: string; added: string[]; updated: string[]; unchanged: string[] } {
+  const current = parseAndValidateEnvVars(env);
+  Object.entries(vars).forEach(([key, value]) => validateAssignment(key, value));
+
+  const { lines, trailing } = splitLines(env);
+  const result = { added: [] as string[], updated: [] as string[], unchanged: [] as string[] };
+
+  const next = lines.map(line => {
+    const key = lineKey(line);
+    return key !== undefined && key in vars && lineValue(line) !== vars[key] ? formatLine(line, key, vars[key]) : line;
+  });
+
+  for (const [key, value] of Object.entries(vars)) {
+    if (!(key in current)) {
+      next.push(`${key}=${value}`);
+      result.added.push(key);
+    } else if (current[key] !== value) {
+      result.updated.push(key);
+    } else {
+      result.unchanged.push(key);
+    }
+  }
+
+  return { env: next.join('\n') + trailing, ...result };
+}
+
+/**
+ * Remove every line that sets one of the keys
+ */
+export function unsetEnvVars(env: string, keys: string[]): { env: string; removed: string[]; missing: string[] } {
+  const current = parseAndValidateEnvVars(env);
+  const unset = new Set(keys);
+  const { lines, trailing } = splitLines(env);
+
+  const next = lines.filter(line => {
+    const key = lineKey(line);
+    return key === undefined || !unset.has(key);
+  });
+
+  return {
+    env: next.join('\n') + trailing,
+    removed: keys.filter(key => key in current),
+    missing: keys.filter(key => !(key in current)),
+  };
+}
+
+/**
+ * Give a variable a new name in place, keeping its value
+ */
+export function renameEnvVar(env: string, from: string, to: string): string {
+  const current = parseAndValidateEnvVars(env);
+  if (!(from in current)) {
+    throw new ValidationError(`Environment variable ${from} is not set`, 'from', from);
+  }
+  if (to in current) {
+    throw new ValidationError(`Environment variable ${to} is already set; unset it first`, 'to', to);
+  }
+  validateAssignment(to, current[from]);
+
+  const { lines, trailing } = splitLines(env);
+  return lines.map(line => lineKey(line) === from ? formatLine(line, to, lineValue(line)) : line).join('\n') + trailing;
+}
+
+/**
+ * Names of the variables that differ between two sets
+ */
+export function diffEnvVars(from: Record<string, string>, to: Record<string, string>): EnvDiff {
+  const diff: EnvDiff = { added: [], removed: [], changed: [] };
+  new Set([...Object.keys(from), ...Object.keys(to)]).forEach(key => {
+    if (!(key in from)) diff.added.push(key);
+    else if (!(key in to)) diff.removed.push(key);
+    else if (from[key] !== to[key]) diff.changed.push(key);
+  });
+  return diff;
+}
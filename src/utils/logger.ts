@@ -0,0 +1,150 @@
+/**
+ * Logger
+ * Leveled logging to stderr (stdout carries the stdio MCP protocol) as pretty text or JSON lines.
+ * Every line carries the correlation id of the request being handled and has secrets redacted.
+ */
+
+import { AsyncLocalStorage } from 'node:async_hooks';
+import { randomUUID } from 'node:crypto';
+import { redactSecrets, redactSecretText } from './redaction.js';
+
+export type LogLevel = 'debug' | 'info' | 'warn' | 'error';
+export type LogFormat = 'pretty' | 'json';
+
+export interface LoggerSettings {
+  level: LogLevel;
+  format: LogFormat;
+}
+
+export type LogFields = Record<string, unknown>;
+
+const LEVEL_ORDER: Record<LogLevel, number> = { debug: 10, info: 20, warn: 30, error: 40 };
+const FORMATS: LogFormat[] = ['pretty', 'json'];
+
+function parseLevel(value: unknown): LogLevel | undefined {
+  return typeof value === 'string' && value.toLowerCase() in LEVEL_ORDER ? value.toLowerCase() as LogLevel : undefined;
+}
+
+function parseFormat(value: unknown): LogFormat | undefined {
+  return typeof value === 'string' && FORMATS.includes(value.toLowerCase() as LogFormat)
+    ? value.toLowerCase() as LogFormat
+    : undefined;
+}
+
+let settings: LoggerSettings = {
+  level: parseLevel(process.env.EASYPANEL_LOG_LEVEL) ?? 'info',
+  format: parseFormat(process.env.EASYPANEL_LOG_FORMAT) ?? 'pretty',
+};
+
+/**
+ * Apply logging settings: --verbose, then EASYPANEL_LOG_LEVEL / EASYPANEL_LOG_FORMAT, then the config file
+ */
+export function configureLogger(fileSettings: { level?: string; format?: string } = {}, verbose = false): LoggerSettings {
+  settings = {
+    level: verbose ? 'debug' : parseLevel(process.env.EASYPANEL_LOG_LEVEL) ?? parseLevel(fileSettings.level) ?? 'info',
+    format: parseFormat(process.env.EASYPANEL_LOG_FORMAT) ?? parseFormat(fileSettings.format) ?? 'pretty',
+  };
+  return settings;
+}
+
+// ==================== CORRELATION ====================
+
+// Correlation id of the request being handled, if any
+const correlationStorage = new AsyncLocalStorage<string>();
+
+export function getCorrelationId(): string | undefined {
+  return correlationStorage.getStore();
+}
+
+/**
+ * Run a function with every log line (and EasyPanel request) it causes tagged with a correlation id
+ */
+export function withCorrelationId<T>(correlationId: string | undefined, fn: () => T): T {
+  return correlationStorage.run(correlationId || randomUUID(), fn);
+}
+
+// Caller-supplied ids end up in log lines, so only plain tokens are accepted
+const CORRELATION_ID_PATTERN = /^[\w.:-]{1,128}$/;
+
+/**
+ * Correlation id for an incoming HTTP request: the caller's X-Correlation-ID if usable, else a new one
+ */
+export function requestCorrelationId(header: string | string[] | undefined): string {
+  const supplied = Array.isArray(header) ? header[0] : header;
+  return supplied && CORRELATION_ID_PATTERN.test(supplied) ? supplied : randomUUID();
+}
+
+/**
+ * Keep the correlation id of the surrounding request, or start a new one
+ */
+export function ensureCorrelationId<T>(fn: () => T): T {
+  return getCorrelationId() ? fn() : withCorrelationId(undefined, fn);
+}
+
+// ==================== LOGGER ====================
+
+/**
+ * Errors do not serialize to JSON on their own
+ */
+function serializeField(value: unknown): unknown {
+  if (value instanceof Error) {
+    return {
+      name: value.name,
+      message: value.message,
+      ...(settings.level === 'debug' && value.stack ? { stack: value.stack } : {}),
+    };
+  }
+  return value;
+}
+
+export class Logger {
+  constructor(readonly component: string) {}
+
+  debug(message: string, fields?: LogFields): void {
+    this.write('debug', message, fields);
+  }
+
+  info(message: string, fields?: LogFields): void {
+    this.write('info', message, fields);
+  }
+
+  warn(message: string, fields?: LogFields): void {
+    this.write('warn', message, fields);
+  }
+
+  error(message: string, fields?: LogFields): void {
+    this.write('error', message, fields);
+  }
+
+  private write(level: LogLevel, message: string, fields?: LogFields): void {
+    if (LEVEL_ORDER[level] < LEVEL_ORDER[settings.level]) {
+      return;
+    }
+
+    const correlationId = getCorrelationId();
+    const text = redactSecretText(message);
+    const extra = fields
+      ? redactSecrets(Object.fromEntries(Object.entries(fields).map(([key, value]) => [key, serializeField(value)])))
+      : undefined;
+
+    if (settings.format === 'json') {
+      process.stderr.write(`${JSON.stringify({
+        time: new Date().toISOString(),
+        level,
+        component: this.component,
+        message: text,
+        ...(correlationId ? { correlationId } : {}),
+        ...extra,
+      }, (_, value) => typeof value === 'string' ? redactSecretText(value) : value)}\n`);
+      return;
+    }
+
+    const context = correlationId ? ` (${correlationId})` : '';
+    const details = extra && Object.keys(extra).length > 0 ? ` ${redactSecretText(JSON.stringify(extra))}` : '';
+    process.stderr.write(`${new Date().toISOString()} ${level.toUpperCase().padEnd(5)} [${this.component}]${context} ${text}${details}\n`);
+  }
+}
+
+export function createLogger(component: string): Logger {
+  return new Logger(component);
+}
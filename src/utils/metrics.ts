@@ -0,0 +1,203 @@
+/**
+ * Metrics
+ * In-process counters, gauges and histograms rendered in the Prometheus text format.
+ * Both HTTP transports serve the same registry on /metrics.
+ */
+
+type Labels = Record<string, string>;
+
+export interface Sample {
+  labels: Labels;
+  value: number;
+}
+
+// Seconds; covers cached answers (~1ms) up to slow deploys
+const DEFAULT_BUCKETS = [0.005, 0.01, 0.025, 0.05, 0.1, 0.25, 0.5, 1, 2.5, 5, 10, 30, 60];
+
+function escapeLabelValue(value: string): string {
+  return value.replace(/\\/g, '\\\\').replace(/"/g, '\\"').replace(/\n/g, '\\n');
+}
+
+function formatLabels(labels: Labels): string {
+  const entries = Object.entries(labels);
+  if (entries.length === 0) {
+    return '';
+  }
+  return `{${entries.map(([key, value]) => `${key}="${escapeLabelValue(value)}"`).join(',')}}`;
+}
+
+// Series are keyed by their sorted labels so {a,b} and {b,a} are the same series
+function seriesKey(labels: Labels): string {
+  return JSON.stringify(Object.keys(labels).sort().map(key => [key, labels[key]]));
+}
+
+interface Metric {
+  readonly name: string;
+  readonly help: string;
+  readonly type: 'counter' | 'gauge' | 'histogram';
+  render(): string[];
+}
+
+export class Counter implements Metric {
+  readonly type = 'counter';
+  private series = new Map<string, Sample>();
+
+  constructor(readonly name: string, readonly help: string) {}
+
+  inc(labels: Labels = {}, value = 1): void {
+    const key = seriesKey(labels);
+    const sample = this.series.get(key);
+    if (sample) {
+      sample.value += value;
+    } else {
+      this.series.set(key, { labels, value });
+    }
+  }
+
+  render(): string[] {
+    return Array.from(this.series.values()).map(sample => `${this.name}${formatLabels(sample.labels)} ${sample.value}`);
+  }
+}
+
+/**
+ * Gauge read from its source at scrape time (open connections, cached responses)
+ */
+export class CollectedMetric implements Metric {
+  readonly type = 'gauge';
+
+  constructor(
+    readonly name: string,
+    readonly help: string,
+    private readonly collect: () => Sample[]
+  ) {}
+
+  render(): string[] {
+    return this.collect().map(sample => `${this.name}${formatLabels(sample.labels)} ${sample.value}`);
+  }
+}
+
+export class Histogram implements Metric {
+  readonly type = 'histogram';
+  private series = new Map<string, { labels: Labels; counts: number[]; sum: number; count: number }>();
+
+  constructor(readonly name: string, readonly help: string, private readonly buckets: number[] = DEFAULT_BUCKETS) {}
+
+  observe(labels: Labels, value: number): void {
+    const key = seriesKey(labels);
+    let series = this.series.get(key);
+    if (!series) {
+      series = { labels, counts: this.buckets.map(() => 0), sum: 0, count: 0 };
+      this.series.set(key, series);
+    }
+
+    this.buckets.forEach((bound, index) => {
+      if (value <= bound) {
+        series!.counts[index]++;
+      }
+    });
+    series.sum += value;
+    series.count++;
+  }
+
+  /**
+   * Observe the seconds elapsed since a Date.now() timestamp
+   */
+  observeSince(labels: Labels, startedAt: number): void {
+    this.observe(labels, (Date.now() - startedAt) / 1000);
+  }
+
+  render(): string[] {
+    const lines: string[] = [];
+    for (const { labels, counts, sum, count } of this.series.values()) {
+      this.buckets.forEach((bound, index) => {
+        lines.push(`${this.name}_bucket${formatLabels({ ...labels, le: String(bound) })} ${counts[index]}`);
+      });
+      lines.push(`${this.name}_bucket${formatLabels({ ...labels, le: '+Inf' })} ${count}`);
+      lines.push(`${this.name}_sum${formatLabels(labels)} ${sum}`);
+      lines.push(`${this.name}_count${formatLabels(labels)} ${count}`);
+    }
+    return lines;
+  }
+}
+
+export class MetricsRegistry {
+  private metrics = new Map<string, Metric>();
+
+  counter(name: string, help: string): Counter {
+    return this.register(new Counter(name, help));
+  }
+
+  gauge(name: string, help: string, collect: () => Sample[]): CollectedMetric {
+    return this.register(new CollectedMetric(name, help, collect));
+  }
+
+  histogram(name: string, help: string, buckets?: number[]): Histogram {
+    return this.register(new Histogram(name, help, buckets));
+  }
+
+  /**
+   * Everything registered, in the Prometheus text exposition format
+   */
+  render(): string {
+    const lines: string[] = [];
+    for (const metric of this.metrics.values()) {
+      lines.push(`# HELP ${metric.name} ${metric.help}`, `# TYPE ${metric.name} ${metric.type}`, ...metric.render());
+    }
+    return `${lines.join('\n')}\n`;
+  }
+
+  private register<M extends Metric>(metric: M): M {
+    if (this.metrics.has(metric.name)) {
+      throw new Error(`Metric ${metric.name} is already registered`);
+    }
+    this.metrics.set(metric.name, metric);
+    return metric;
+  }
+}
+
+export const PROMETHEUS_CONTENT_TYPE = 'text/plain; version=0.0.4; charset=utf-8';
+
+export const metrics = new MetricsRegistry();
+
+// ==================== SERVER METRICS ====================
+
+export const toolCalls = metrics.counter(
+  'easypanel_mcp_tool_calls_total',
+  'Tool calls by tool and outcome (success or error)'
+);
+
+export const toolErrors = metrics.counter(
+  'easypanel_mcp_tool_errors_total',
+  'Failed tool calls by tool and error category'
+);
+
+export const toolDuration = metrics.histogram(
+  'easypanel_mcp_tool_duration_seconds',
+  'Tool call latency by tool'
+);
+
+export const apiRequestDuration = metrics.histogram(
+  'easypanel_mcp_api_request_duration_seconds',
+  'EasyPanel API request latency by tRPC procedure and outcome'
+);
+
+export const apiErrors = metrics.counter(
+  'easypanel_mcp_api_errors_total',
+  'Failed EasyPanel API requests by tRPC procedure and error category'
+);
+
+// Counted at lookup time: the stats of getCacheStats() restart whenever the cache is invalidated
+export const cacheHits = metrics.counter(
+  'easypanel_mcp_cache_hits_total',
+  'Response cache hits by instance'
+);
+
+export const cacheMisses = metrics.counter(
+  'easypanel_mcp_cache_misses_total',
+  'Response cache misses by instance'
+);
+
+export const rateLimitRejections = metrics.counter(
+  'easypanel_mcp_rate_limit_rejections_total',
+  'REST API requests rejected by the rate limiter, by client type'
+);
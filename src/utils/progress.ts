@@ -2,6 +2,10 @@
  * Progress reporting utilities for long-running operations
  */
 
+import { createLogger } from './logger.js';
+
+const logger = createLogger('Progress');
+
 export interface ProgressUpdate {
   toolName: string;
   progress: number;
@@ -29,7 +33,7 @@ export class ProgressReporter {
     };
 
     // Always log to stderr (MCP standard)
-    console.error(`[Progress] ${toolName}: ${progress}% - ${message}`);
+    logger.info(`${toolName}: ${progress}% - ${message}`);
 
     // Send to callback if available (for SSE streaming)
     if (this.updateCallback) {
@@ -0,0 +1,182 @@
+/**
+ * Secret redaction for values that leave the server (audit log, logs, tool output, resources)
+ */
+
+import { getConfig } from '../config.js';
+
+export const REDACTED = '[REDACTED]';
+
+// Words of argument and field names whose values are secrets. Names are split into words on
+// camelCase, "_", "-" and ".", so dbPassword and API_TOKEN match but passed and MAX_TOKENS do not
+const SECRET_KEY_WORDS = new Set([
+  'password', 'passwd', 'pass', 'pwd', 'passphrase', 'secret', 'token', 'credential', 'credentials',
+  'authorization', 'apikey', 'privatekey',
+]);
+
+// Word pairs that name a secret together, e.g. api_key, privateKey
+const SECRET_KEY_PAIRS = new Set(['api key', 'private key']);
+
+// .env style text, where every value may be a secret
+const ENV_KEYS = new Set(['env']);
+
+// "password=...", "token: ..." and "Bearer ..." inside free text such as log messages
+const SECRET_ASSIGNMENT_PATTERN = /\b([\w-]*(?:pass(?:word)?|secret|token|api[-_]?key|private[-_]?key|credential)[\w-]*)(["']?\s*[:=]\s*["']?)([^\s"',;&}]+)/gi;
+const BEARER_PATTERN = /\bBearer\s+[\w.~+/=-]+/gi;
+
+// user:password@ in connection URLs; the user is empty in redis://:password@host
+const URL_CREDENTIALS_PATTERN = /(\b[a-z][a-z0-9+.-]*:\/\/[^\s:@/]*:)([^\s@/]+)(@)/gi;
+
+// Keys the server issues for the caller to send back, which look secret but are not credentials
+const ISSUED_KEYS = new Set(['confirmationToken']);
+
+// Credentials the server holds (configured passwords, issued tokens), hidden wherever they appear
+const knownSecrets = new Set<string>();
+
+// Short values would match too much ordinary text
+const MIN_KNOWN_SECRET_LENGTH = 6;
+
+function keyWords(key: string): string[] {
+  return key
+    .replace(/([a-z0-9])([A-Z])/g, '$1 $2')
+    .replace(/([A-Z]+)([A-Z][a-z])/g, '$1 $2')
+    .toLowerCase()
+    .split(/[\s_.-]+/)
+    .filter(Boolean);
+}
+
+export function isSecretKey(key: string): boolean {
+  const words = keyWords(key);
+  if (words.length === 1 && words[0] === 'key') {
+    return true;
+  }
+  return words.some((word, index) =>
+    SECRET_KEY_WORDS.has(word) || (index > 0 && SECRET_KEY_PAIRS.has(`${words[index - 1]} ${word}`))
+  );
+}
+
+/**
+ * Remember a credential so redactSecretText hides it even where no key names it
+ */
+export function registerSecretValue(value: string | null | undefined): void {
+  if (value && value.length >= MIN_KNOWN_SECRET_LENGTH) {
+    knownSecrets.add(value);
+  }
+}
+
+/**
+ * Hide known credentials, bearer tokens and secret-looking assignments in free text
+ */
+export function redactSecretText(text: string): string {
+  let redacted = text;
+  for (const secret of knownSecrets) {
+    redacted = redacted.split(secret).join(REDACTED);
+  }
+
+  return redacted
+    .replace(BEARER_PATTERN, `Bearer ${REDACTED}`)
+    // ${VAR} references (stack manifests) name a secret without holding it
+    .replace(SECRET_ASSIGNMENT_PATTERN, (match, key: string, separator: string, value: string) =>
+      !isSecretKey(key) || value === REDACTED || value.startsWith('[REDACTED') || value.startsWith('${')
+        ? match
+        : `${key}${separator}${REDACTED}`
+    );
+}
+
+/**
+ * Whether text holds a connection URL with a user:password@ part
+ */
+export function hasUrlCredentials(text: string): boolean {
+  return new RegExp(URL_CREDENTIALS_PATTERN.source, 'i').test(text);
+}
+
+/**
+ * Keep the variable names of KEY=VALUE lines and hide their values
+ */
+export function redactEnvText(env: string): string {
+  return env
+    .split('\n')
+    .map(line => {
+      const match = line.match(/^(\s*(?:export\s+)?[A-Za-z_][A-Za-z0-9_.-]*\s*=)/);
+      return match && !line.trimStart().startsWith('#') ? `${match[1]}${REDACTED}` : line;
+    })
+    .join('\n');
+}
+
+/**
+ * Deep copy of a value with secret fields replaced by [REDACTED]
+ */
+export function redactSecrets<T>(value: T): T {
+  if (Array.isArray(value)) {
+    return value.map(item => redactSecrets(item)) as T;
+  }
+
+  if (value && typeof value === 'object') {
+    return Object.fromEntries(
+      Object.entries(value).map(([key, item]) => {
+        if (item !== undefined && item !== null && isSecretKey(key)) {
+          return [key, REDACTED];
+        }
+        if (typeof item === 'string' && ENV_KEYS.has(key)) {
+          return [key, redactEnvText(item)];
+        }
+        return [key, redactSecrets(item)];
+      })
+    ) as T;
+  }
+
+  return value;
+}
+
+/**
+ * Mask KEY=VALUE lines whose variable name looks secret and keep the rest readable
+ */
+export function redactSecretEnvText(env: string, isSecret: (key: string) => boolean = isSecretKey): string {
+  return env
+    .split('\n')
+    .map(line => {
+      const match = line.match(/^(\s*(?:export\s+)?([A-Za-z_][A-Za-z0-9_.-]*)\s*=)/);
+      return match && !line.trimStart().startsWith('#') && isSecret(match[2]) ? `${match[1]}${REDACTED}` : line;
+    })
+    .join('\n');
+}
+
+/**
+ * Copy of a tool result with credentials masked: fields with secret-like names, env lines with
+ * secret-like variable names, passwords in connection URLs and credentials the server holds.
+ * extraKeys adds case-insensitive name fragments to treat as secret.
+ */
+export function redactToolOutput<T>(value: T, extraKeys: string[] = []): T {
+  const fragments = extraKeys.map(key => key.toLowerCase());
+  const isSecret = (key: string) =>
+    !ISSUED_KEYS.has(key) && (isSecretKey(key) || fragments.some(fragment => key.toLowerCase().includes(fragment)));
+
+  const redact = (item: unknown, key?: string): unknown => {
+    if (typeof item === 'string') {
+      if (key !== undefined && isSecret(key)) {
+        return REDACTED;
+      }
+      const text = key !== undefined && ENV_KEYS.has(key) ? redactSecretEnvText(item, isSecret) : item;
+      return redactSecretText(text.replace(URL_CREDENTIALS_PATTERN, `$1${REDACTED}$3`));
+    }
+    if (Array.isArray(item)) {
+      return item.map(entry => redact(entry));
+    }
+    if (item && typeof item === 'object') {
+      return Object.fromEntries(Object.entries(item).map(([name, entry]) => [name, redact(entry, name)]));
+    }
+    return item;
+  };
+
+  return redact(value) as T;
+}
+
+/**
+ * redactToolOutput with the config file "redaction" settings: its extra keys, or no masking when it is disabled
+ */
+export function redactConfiguredOutput<T>(value: T): T {
+  const config = getConfig().redaction || {};
+  if (config.enabled === false) {
+    return value;
+  }
+  return redactToolOutput(value, Array.isArray(config.keys) ? config.keys : []);
+}
@@ -0,0 +1,244 @@
+/**
+ * Stack Manifests
+ * YAML or JSON description of a project: its app services (source, env, resources, domains)
+ * and its databases. stack_plan / stack_apply converge a project on one.
+ */
+
+import { readFile } from 'node:fs/promises';
+import { resolve } from 'node:path';
+import { z } from 'zod';
+import { Document, parse as parseYaml } from 'yaml';
+import { ValidationError, validateProjectServiceNameWithRefine } from './validation.js';
+
+const NAME_MESSAGE = 'must be 2-64 characters, lowercase alphanumeric, hyphens, or underscores, and start with a letter or number';
+
+const sourceSchema = z.discriminatedUnion('type', [
+  z.object({
+    type: z.literal('image'),
+    image: z.string().min(1),
+    username: z.string().optional(),
+    password: z.string().optional(),
+  }).strict(),
+  z.object({
+    type: z.literal('git'),
+    repo: z.string().min(1),
+    ref: z.string().default('main'),
+    path: z.string().default('/'),
+  }).strict(),
+  z.object({
+    type: z.literal('dockerfile'),
+    repo: z.string().min(1),
+    ref: z.string().default('main'),
+    path: z.string().default('/'),
+    dockerfile: z.string().default('./Dockerfile'),
+  }).strict(),
+]);
+
+const resourcesSchema = z.object({
+  memoryReservation: z.number().positive().optional(),
+  memoryLimit: z.number().positive().optional(),
+  cpuReservation: z.number().positive().optional(),
+  cpuLimit: z.number().positive().optional(),
+}).strict();
+
+const domainSchema = z.union([
+  z.string().min(1).transform(host => ({ host })),
+  z.object({
+    host: z.string().min(1),
+    https: z.boolean().optional(),
+    port: z.number().int().positive().optional(),
+  }).strict(),
+]);
+
+// Values are kept as strings so "PORT: 3000" in YAML means PORT=3000
+const envSchema = z.record(z.union([z.string(), z.number(), z.boolean()]).transform(String));
+
+const appServiceSchema = z.object({
+  source: sourceSchema.optional(),
+  env: envSchema.optional(),
+  resources: resourcesSchema.optional(),
+  domains: z.array(domainSchema).optional(),
+}).strict();
+
+// Images EasyPanel creates database services with unless a manifest names one
+export const DEFAULT_DATABASE_IMAGES = {
+  postgres: 'postgres:15',
+  mysql: 'mysql:8.0',
+  redis: 'redis:7',
+  mongo: 'mongo:7',
+  mariadb: 'mariadb:11',
+} as const;
+
+const databaseSchema = z.discriminatedUnion('type', [
+  z.object({
+    type: z.literal('postgres'),
+    image: z.string().default(DEFAULT_DATABASE_IMAGES.postgres),
+    databaseName: z.string().min(1),
+    user: z.string().min(1),
+    password: z.string().min(1),
+  }).strict(),
+  z.object({
+    type: z.literal('mysql'),
+    image: z.string().default(DEFAULT_DATABASE_IMAGES.mysql),
+    databaseName: z.string().min(1),
+    user: z.string().min(1),
+    password: z.string().min(1),
+    rootPassword: z.string().min(1),
+  }).strict(),
+  z.object({
+    type: z.literal('redis'),
+    image: z.string().default(DEFAULT_DATABASE_IMAGES.redis),
+    password: z.string().min(1),
+  }).strict(),
+  z.object({
+    type: z.literal('mongo'),
+    image: z.string().default(DEFAULT_DATABASE_IMAGES.mongo),
+    databaseName: z.string().min(1),
+    user: z.string().min(1),
+    password: z.string().min(1),
+  }).strict(),
+  z.object({
+    type: z.literal('mariadb'),
+    image: z.string().default(DEFAULT_DATABASE_IMAGES.mariadb),
+    databaseName: z.string().min(1),
+    user: z.string().min(1),
+    password: z.string().min(1),
+    rootPassword: z.string().min(1),
+  }).strict(),
+]);
+
+const serviceNameSchema = z.string().refine(validateProjectServiceNameWithRefine('service'), { message: `Service name ${NAME_MESSAGE}` });
+
+export const stackManifestSchema = z.object({
+  project: z.string().refine(validateProjectServiceNameWithRefine('project'), { message: `Project name ${NAME_MESSAGE}` }),
+  services: z.record(serviceNameSchema, appServiceSchema).default({}),
+  databases: z.record(serviceNameSchema, databaseSchema).default({}),
+}).strict().superRefine((manifest, ctx) => {
+  for (const name of Object.keys(manifest.databases)) {
+    if (name in manifest.services) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['databases', name], message: `'${name}' is declared both as a service and as a database` });
+    }
+  }
+});
+
+export type StackManifest = z.output<typeof stackManifestSchema>;
+export type StackAppService = StackManifest['services'][string];
+export type StackDatabase = StackManifest['databases'][string];
+export type StackSource = NonNullable<StackAppService['source']>;
+export type StackResources = NonNullable<StackAppService['resources']>;
+export type StackDomain = { host: string; https?: boolean; port?: number };
+
+// Server environment variables that ${VAR} references may read. Anything else, such as the
+// EASYPANEL_* credentials of the server itself, is out of reach of whoever calls the tools.
+export const STACK_VARIABLE_PREFIX = 'STACK_';
+
+/**
+ * Value of a ${VAR} reference: the variables passed with the call, then server environment
+ * variables named STACK_*; undefined when neither has it
+ */
+export function lookupStackVariable(name: string, variables: Record<string, string> = {}): string | undefined {
+  if (Object.prototype.hasOwnProperty.call(variables, name)) {
+    return variables[name];
+  }
+  return name.startsWith(STACK_VARIABLE_PREFIX) ? process.env[name] : undefined;
+}
+
+/**
+ * Replace ${VAR} references, so passwords can stay out of the repository
+ */
+function expandVariableReferences(value: unknown, variables: Record<string, string>, missing: Set<string>): unknown {
+  if (typeof value === 'string') {
+    return value.replace(/\$\{([A-Z0-9_]+)\}/gi, (_, name: string) => {
+      const resolved = lookupStackVariable(name, variables);
+      if (resolved === undefined) {
+        missing.add(name);
+        return '';
+      }
+      return resolved;
+    });
+  }
+  if (Array.isArray(value)) {
+    return value.map(item => expandVariableReferences(item, variables, missing));
+  }
+  if (value && typeof value === 'object') {
+    return Object.fromEntries(Object.entries(value).map(([key, item]) => [key, expandVariableReferences(item, variables, missing)]));
+  }
+  return value;
+}
+
+/**
+ * Parse and validate a manifest; JSON is valid YAML, so one parser reads both
+ */
+export function parseStackManifest(text: string, variables: Record<string, string> = {}): StackManifest {
+  let raw: unknown;
+  try {
+    raw = parseYaml(text);
+  } catch (error) {
+    throw new ValidationError(`Invalid stack manifest: ${error instanceof Error ? error.message : String(error)}`, 'manifest');
+  }
+
+  if (!raw || typeof raw !== 'object' || Array.isArray(raw)) {
+    throw new ValidationError('Invalid stack manifest: expected a mapping with a "project" key', 'manifest');
+  }
+
+  const missing = new Set<string>();
+  const expanded = expandVariableReferences(raw, variables, missing);
+  if (missing.size > 0) {
+    throw new ValidationError(
+      `Stack manifest references unset variables: ${Array.from(missing).join(', ')}. Pass them in variables or set them as ${STACK_VARIABLE_PREFIX}* environment variables of the server`,
+      'manifest'
+    );
+  }
+
+  const parsed = stackManifestSchema.safeParse(expanded);
+  if (!parsed.success) {
+    const issues = parsed.error.issues.map(issue => `${issue.path.join('.') || '(root)'}: ${issue.message}`);
+    throw new ValidationError(`Invalid stack manifest: ${issues.join('; ')}`, 'manifest');
+  }
+  return parsed.data;
+}
+
+/**
+ * Manifest from inline text or from a file on the server
+ */
+export async function loadStackManifest(source: { manifest?: string; manifestPath?: string; variables?: Record<string, string> }): Promise<StackManifest> {
+  if (source.manifest !== undefined && source.manifestPath !== undefined) {
+    throw new ValidationError('Pass either manifest or manifestPath, not both', 'manifest');
+  }
+  if (source.manifest !== undefined) {
+    return parseStackManifest(source.manifest, source.variables);
+  }
+  if (!source.manifestPath) {
+    throw new ValidationError('Pass either manifest (YAML or JSON text) or manifestPath', 'manifest');
+  }
+
+  const path = resolve(source.manifestPath);
+  let text: string;
+  try {
+    text = await readFile(path, 'utf8');
+  } catch (error) {
+    throw new ValidationError(`Unable to read stack manifest ${path}: ${error instanceof Error ? error.message : String(error)}`, 'manifestPath', source.manifestPath);
+  }
+  return parseStackManifest(text, source.variables);
+}
+
+/**
+ * Env map as the KEY=value lines updateEnv takes
+ */
+export function formatEnv(env: Record<string, string>): string {
+  return Object.entries(env).map(([key, value]) => `${key}=${value}`).join('\n');
+}
+
+/**
+ * Manifest as YAML or JSON text that parseStackManifest reads back; the comment heads YAML output
+ */
+export function stringifyStackManifest(manifest: StackManifest, format: 'yaml' | 'json' = 'yaml', comment?: string): string {
+  if (format === 'json') {
+    return `${JSON.stringify(manifest, null, 2)}\n`;
+  }
+  const document = new Document(manifest);
+  if (comment) {
+    document.commentBefore = comment.split('\n').map(line => ` ${line}`).join('\n');
+  }
+  return document.toString();
+}
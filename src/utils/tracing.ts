@@ -0,0 +1,201 @@
+/**
+ * Tracing
+ * Spans around tool calls, EasyPanel requests and shell commands, written as OTLP JSON lines
+ * (one ExportTraceServiceRequest per span, the format of the OpenTelemetry collector's file exporter).
+ */
+
+import { AsyncLocalStorage } from 'node:async_hooks';
+import { randomBytes } from 'node:crypto';
+import { existsSync, mkdirSync } from 'node:fs';
+import { appendFile } from 'node:fs/promises';
+import { homedir } from 'node:os';
+import { dirname, join, resolve } from 'node:path';
+import { performance } from 'node:perf_hooks';
+import { createLogger, getCorrelationId } from './logger.js';
+
+const logger = createLogger('Tracing');
+
+const DEFAULT_TRACE_FILE = join(homedir(), '.easypanel-mcp', 'traces.jsonl');
+const SERVICE_NAME = 'easypanel-mcp';
+
+export type SpanKind = 'internal' | 'server' | 'client';
+export type AttributeValue = string | number | boolean;
+
+// OTLP enum values
+const SPAN_KIND_CODES: Record<SpanKind, number> = { internal: 1, server: 2, client: 3 };
+const STATUS_OK = 1;
+const STATUS_ERROR = 2;
+
+/**
+ * Where finished spans go: a JSONL file, stdout, or nowhere
+ */
+export type TraceOutput = { type: 'file'; path: string } | { type: 'stdout' } | undefined;
+
+let output: TraceOutput;
+let stdoutUsable = true;
+
+// Writes are chained so spans land in the order they ended
+let pendingWrite: Promise<void> = Promise.resolve();
+
+/**
+ * Choose the span output. EASYPANEL_TRACE_OUTPUT (a path, "stdout" or "off") overrides the config file.
+ * stdout carries the protocol of the stdio transport, so spans go to stderr there instead.
+ */
+export function configureTracing(
+  fileSettings: { enabled?: boolean; output?: string } = {},
+  stdoutAvailable = true
+): TraceOutput {
+  const envOutput = process.env.EASYPANEL_TRACE_OUTPUT;
+  const enabled = envOutput ? envOutput !== 'off' : fileSettings.enabled === true || Boolean(fileSettings.output);
+  const target = envOutput || fileSettings.output;
+
+  if (!enabled) {
+    output = undefined;
+  } else if (target === 'stdout') {
+    if (!stdoutAvailable) {
+      logger.warn('Trace output "stdout" is the MCP channel of the stdio transport; writing spans to stderr instead');
+    }
+    output = { type: 'stdout' };
+  } else {
+    output = { type: 'file', path: resolve(target || DEFAULT_TRACE_FILE) };
+  }
+
+  stdoutUsable = stdoutAvailable;
+  return output;
+}
+
+// ==================== SPANS ====================
+
+function toNanos(epochMs: number): string {
+  return (BigInt(Math.round(epochMs * 1000)) * 1000n).toString();
+}
+
+// Wall-clock milliseconds with sub-millisecond resolution
+function now(): number {
+  return performance.timeOrigin + performance.now();
+}
+
+function encodeAttribute(value: AttributeValue): Record<string, unknown> {
+  if (typeof value === 'boolean') {
+    return { boolValue: value };
+  }
+  if (typeof value === 'number') {
+    return Number.isInteger(value) ? { intValue: String(value) } : { doubleValue: value };
+  }
+  return { stringValue: value };
+}
+
+export class Span {
+  readonly traceId: string;
+  readonly spanId = randomBytes(8).toString('hex');
+  private readonly startTime = now();
+  private readonly attributes: Record<string, AttributeValue> = {};
+  private status?: { code: number; message?: string };
+  private ended = false;
+
+  constructor(readonly name: string, readonly kind: SpanKind, readonly parent?: Span) {
+    this.traceId = parent?.traceId ?? randomBytes(16).toString('hex');
+  }
+
+  setAttribute(key: string, value: AttributeValue | undefined): this {
+    if (value !== undefined) {
+      this.attributes[key] = value;
+    }
+    return this;
+  }
+
+  setAttributes(attributes: Record<string, AttributeValue | undefined>): this {
+    Object.entries(attributes).forEach(([key, value]) => this.setAttribute(key, value));
+    return this;
+  }
+
+  setError(error: unknown): this {
+    this.status = { code: STATUS_ERROR, message: error instanceof Error ? error.message : String(error) };
+    return this;
+  }
+
+  end(): void {
+    if (this.ended) {
+      return;
+    }
+    this.ended = true;
+    exportSpan(this.toOtlp(now()));
+  }
+
+  private toOtlp(endTime: number): Record<string, unknown> {
+    return {
+      traceId: this.traceId,
+      spanId: this.spanId,
+      ...(this.parent ? { parentSpanId: this.parent.spanId } : {}),
+      name: this.name,
+      kind: SPAN_KIND_CODES[this.kind],
+      startTimeUnixNano: toNanos(this.startTime),
+      endTimeUnixNano: toNanos(endTime),
+      attributes: Object.entries(this.attributes).map(([key, value]) => ({ key, value: encodeAttribute(value) })),
+      status: this.status ?? { code: STATUS_OK },
+    };
+  }
+}
+
+function exportSpan(span: Record<string, unknown>): void {
+  const target = output;
+  if (!target) {
+    return;
+  }
+
+  const line = `${JSON.stringify({
+    resourceSpans: [{
+      resource: { attributes: [{ key: 'service.name', value: { stringValue: SERVICE_NAME } }] },
+      scopeSpans: [{ scope: { name: SERVICE_NAME }, spans: [span] }],
+    }],
+  })}\n`;
+
+  if (target.type === 'stdout') {
+    (stdoutUsable ? process.stdout : process.stderr).write(line);
+    return;
+  }
+
+  pendingWrite = pendingWrite
+    .then(async () => {
+      if (!existsSync(dirname(target.path))) {
+        mkdirSync(dirname(target.path), { recursive: true });
+      }
+      await appendFile(target.path, line, { encoding: 'utf8', mode: 0o600 });
+    })
+    .catch(error => {
+      logger.error(`Failed to write span to ${target.path}`, { error });
+    });
+}
+
+// Span that work started now belongs to
+const spanStorage = new AsyncLocalStorage<Span>();
+
+/**
+ * Run a function inside a span that is a child of the current one. The span records a thrown
+ * error and ends when the function settles; with tracing off the function simply runs.
+ */
+export async function withSpan<T>(
+  name: string,
+  options: { kind?: SpanKind; attributes?: Record<string, AttributeValue | undefined> },
+  fn: (span: Span) => Promise<T>
+): Promise<T> {
+  if (!output) {
+    return fn(new Span(name, options.kind ?? 'internal'));
+  }
+
+  const parent = spanStorage.getStore();
+  const span = new Span(name, options.kind ?? 'internal', parent);
+  span.setAttributes(options.attributes ?? {});
+  if (!parent) {
+    span.setAttribute('correlation.id', getCorrelationId());
+  }
+
+  try {
+    return await spanStorage.run(span, () => fn(span));
+  } catch (error) {
+    span.setError(error);
+    throw error;
+  } finally {
+    span.end();
+  }
+}
@@ -0,0 +1,173 @@
+/**
+ * Test Helpers
+ * Start the mock EasyPanel API and the MCP server (as a child process) for a transport
+ */
+
+import { ChildProcess, spawn } from 'node:child_process';
+import { createServer } from 'node:net';
+import { rmSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { fileURLToPath } from 'node:url';
+import path from 'node:path';
+import { MockEasyPanelServer } from '../mock/easypanel-server.js';
+
+export const ROOT_DIR = path.resolve(path.dirname(fileURLToPath(import.meta.url)), '../..');
+export const SERVER_ENTRY = path.join(ROOT_DIR, 'src/index.ts');
+export const TSX_CLI = path.join(ROOT_DIR, 'node_modules/tsx/dist/cli.mjs');
+
+const STARTUP_TIMEOUT_MS = 30000;
+
+/**
+ * Audit log, cache directory and database links file the MCP server uses for a mock, kept out of the user's home directory
+ */
+export function serverFilesFor(mock: MockEasyPanelServer): { auditLog: string; cacheDir: string; linksFile: string } {
+  const port = new URL(mock.url).port;
+  return {
+    auditLog: path.join(tmpdir(), `easypanel-mcp-audit-${port}.jsonl`),
+    cacheDir: path.join(tmpdir(), `easypanel-mcp-cache-${port}`),
+    linksFile: path.join(tmpdir(), `easypanel-mcp-links-${port}.json`),
+  };
+}
+
+export function removeServerFiles(mock: MockEasyPanelServer): void {
+  const { auditLog, cacheDir, linksFile } = serverFilesFor(mock);
+  rmSync(auditLog, { force: true });
+  rmSync(cacheDir, { recursive: true, force: true });
+  rmSync(linksFile, { force: true });
+}
+
+/**
+ * Environment that points the MCP server at the mock EasyPanel API
+ */
+export function mockServerEnv(mock: MockEasyPanelServer): Record<string, string> {
+  const env: Record<string, string> = {};
+  for (const [key, value] of Object.entries(process.env)) {
+    if (value !== undefined && !key.startsWith('EASYPANEL_')) {
+      env[key] = value;
+    }
+  }
+
+  return {
+    ...env,
+    EASYPANEL_URL: mock.url,
+    EASYPANEL_EMAIL: mock.credentials.email,
+    EASYPANEL_PASSWORD: mock.credentials.password,
+    EASYPANEL_AUDIT_LOG: serverFilesFor(mock).auditLog,
+    EASYPANEL_CACHE_DIR: serverFilesFor(mock).cacheDir,
+    EASYPANEL_LINKS_FILE: serverFilesFor(mock).linksFile,
+  };
+}
+
+export async function getFreePort(): Promise<number> {
+  return new Promise((resolve, reject) => {
+    const server = createServer();
+    server.unref();
+    server.on('error', reject);
+    server.listen(0, '127.0.0.1', () => {
+      const address = server.address();
+      const port = typeof address === 'object' && address ? address.port : 0;
+      server.close(() => resolve(port));
+    });
+  });
+}
+
+async function waitForHealth(url: string, child: ChildProcess, output: () => string): Promise<void> {
+  const deadline = Date.now() + STARTUP_TIMEOUT_MS;
+
+  while (Date.now() < deadline) {
+    if (child.exitCode !== null) {
+      throw new Error(`MCP server exited with code ${child.exitCode}:\n${output()}`);
+    }
+
+    try {
+      const response = await fetch(url);
+      if (response.ok) {
+        return;
+      }
+    } catch {
+      // Not listening yet
+    }
+
+    await new Promise(resolve => setTimeout(resolve, 200));
+  }
+
+  throw new Error(`MCP server did not become healthy at ${url} within ${STARTUP_TIMEOUT_MS}ms:\n${output()}`);
+}
+
+export interface RunningServer {
+  baseUrl: string;
+  // Everything the server wrote to stdout and stderr so far
+  output(): string;
+  stop(): Promise<void>;
+}
+
+/**
+ * Spawn the MCP server with an HTTP-based transport and wait until its health endpoint answers
+ */
+export async function startHttpServer(
+  transport: 'sse' | 'rest' | 'exporter',
+  mock: MockEasyPanelServer,
+  extraArgs: string[] = []
+): Promise<RunningServer> {
+  const port = await getFreePort();
+  const portFlag = transport === 'rest' ? '--rest-port' : '--port';
+  const healthPath = transport === 'rest' ? '/api/health' : '/health';
+
+  const child = spawn(process.execPath, [TSX_CLI, SERVER_ENTRY, '--transport', transport, portFlag, String(port), ...extraArgs], {
+    cwd: ROOT_DIR,
+    env: mockServerEnv(mock),
+    stdio: ['ignore', 'pipe', 'pipe'],
+  });
+
+  let output = '';
+  child.stdout?.on('data', chunk => { output += chunk; });
+  child.stderr?.on('data', chunk => { output += chunk; });
+
+  const baseUrl = `http://127.0.0.1:${port}`;
+
+  try {
+    await waitForHealth(`${baseUrl}${healthPath}`, child, () => output);
+  } catch (error) {
+    await stopChild(child);
+    throw error;
+  }
+
+  return {
+    baseUrl,
+    output: () => output,
+    stop: () => stopChild(child),
+  };
+}
+
+/**
+ * Stop a child process we started, escalating to SIGKILL if it does not exit
+ */
+export async function stopChild(child: ChildProcess): Promise<void> {
+  if (child.exitCode !== null || child.signalCode !== null) {
+    return;
+  }
+
+  const exited = new Promise<void>(resolve => child.once('exit', () => resolve()));
+  child.kill('SIGTERM');
+
+  const timer = setTimeout(() => child.kill('SIGKILL'), 5000);
+  await exited;
+  clearTimeout(timer);
+}
+
+/**
+ * Parse the JSON text content of a tool result
+ */
+export function parseToolText(result: { content?: unknown }): any {
+  const content = result.content as Array<{ type: string; text?: string }> | undefined;
+  const text = content?.find(item => item.type === 'text')?.text;
+  if (text === undefined) {
+    return undefined;
+  }
+
+  try {
+    return JSON.parse(text);
+  } catch {
+    return text;
+  }
+}
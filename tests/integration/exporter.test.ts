@@ -0,0 +1,72 @@
+/**
+ * Prometheus exporter mode integration tests
+ */
+
+import assert from 'node:assert/strict';
+import { after, before, test } from 'node:test';
+import { MockEasyPanelServer } from '../mock/easypanel-server.js';
+import { removeServerFiles, RunningServer, startHttpServer } from '../helpers/server.js';
+
+const mock = new MockEasyPanelServer();
+let server: RunningServer;
+
+async function mutate(procedure: string, input: unknown): Promise<void> {
+  const response = await fetch(`${mock.url}/api/trpc/${procedure}`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json', Authorization: `Bearer ${mock.issueToken()}` },
+    body: JSON.stringify({ json: input }),
+  });
+  assert.equal(response.status, 200, `${procedure} responded ${response.status}`);
+}
+
+/**
+ * Scrape /metrics until a poll has produced the expected series
+ */
+async function scrapeUntil(pattern: RegExp): Promise<string> {
+  const deadline = Date.now() + 15000;
+  let text = '';
+  while (Date.now() < deadline) {
+    text = await (await fetch(`${server.baseUrl}/metrics`)).text();
+    if (pattern.test(text)) {
+      return text;
+    }
+    await new Promise(resolve => setTimeout(resolve, 250));
+  }
+  assert.fail(`No series matching ${pattern} in:\n${text}`);
+}
+
+before(async () => {
+  await mock.start();
+  await mutate('projects.createProject', { name: 'shop' });
+  await mutate('services.app.createService', { projectName: 'shop', serviceName: 'web' });
+  await mutate('services.app.deployService', { projectName: 'shop', serviceName: 'web' });
+  server = await startHttpServer('exporter', mock, ['--exporter-interval', '1']);
+});
+
+after(async () => {
+  await server?.stop();
+  removeServerFiles(mock);
+  await mock.stop();
+});
+
+test('exporter serves host, container and service stats as gauges', async () => {
+  const text = await scrapeUntil(/^easypanel_service_cpu_percent\{/m);
+
+  assert.match(text, /^# TYPE easypanel_cpu_usage_percent gauge$/m);
+  assert.match(text, /^easypanel_cpu_usage_percent\{instance="default"\} 15$/m);
+  assert.match(text, /^easypanel_memory_bytes\{instance="default",state="total"\} 8589934592$/m);
+  assert.match(text, /^easypanel_load_average\{instance="default",period="5m"\} 0\.4$/m);
+  assert.match(text, /^easypanel_container_up\{instance="default",project="shop",service="web",container="shop_web"\} 1$/m);
+  assert.match(text, /^easypanel_projects\{instance="default"\} 1$/m);
+  assert.match(text, /^easypanel_service_up\{instance="default",project="shop",service="web"\} 1$/m);
+  assert.match(text, /^easypanel_service_cpu_percent\{instance="default",project="shop",service="web"\} 12\.5$/m);
+  assert.match(text, /^easypanel_service_memory_bytes\{instance="default",project="shop",service="web"\} 134217728$/m);
+  assert.match(text, /^easypanel_exporter_poll_success\{instance="default",source="services"\} 1$/m);
+  assert.match(text, /^easypanel_mcp_api_request_duration_seconds_count\{/m);
+});
+
+test('a failing source is reported by the poll success gauge', async () => {
+  mock.failNext('monitor.getDockerTaskStats', 500, 5);
+  const text = await scrapeUntil(/^easypanel_exporter_poll_success\{instance="default",source="docker_tasks"\} 0$/m);
+  assert.match(text, /^easypanel_exporter_poll_success\{instance="default",source="system"\} 1$/m);
+});
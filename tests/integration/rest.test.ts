@@ -0,0 +1,343 @@
+/**
+ * REST API transport integration tests
+ */
+
+import assert from 'node:assert/strict';
+import { after, before, test } from 'node:test';
+import { randomUUID } from 'node:crypto';
+import { existsSync, mkdtempSync, readFileSync, rmSync, writeFileSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import path from 'node:path';
+import { MockEasyPanelServer } from '../mock/easypanel-server.js';
+import { parseToolText, removeServerFiles, RunningServer, startHttpServer } from '../helpers/server.js';
+import { CallTool, defineToolSuite } from '../helpers/tool-suite.js';
+import { toolRegistry } from '../../src/tools/index.js';
+
+const mock = new MockEasyPanelServer();
+const sessionId = randomUUID();
+let server: RunningServer;
+
+async function request(
+  method: 'GET' | 'POST',
+  route: string,
+  body?: unknown,
+  target: RunningServer = server
+): Promise<{ status: number; body: any }> {
+  const response = await fetch(`${target.baseUrl}/api${route}`, {
+    method,
+    headers: {
+      'Content-Type': 'application/json',
+      'X-Client-Name': 'claude',
+      'X-MCP-Session-ID': sessionId,
+    },
+    body: body === undefined ? undefined : JSON.stringify(body),
+  });
+
+  return { status: response.status, body: await response.json() };
+}
+
+const callTool: CallTool = async (tool, args) => {
+  const response = await request('POST', `/tools/${tool}`, args);
+  assert.equal(response.status, 200, `${tool} responded ${response.status}: ${JSON.stringify(response.body)}`);
+  assert.equal(response.body.success, true);
+  return response.body.data;
+};
+
+before(async () => {
+  await mock.start();
+  server = await startHttpServer('rest', mock);
+});
+
+after(async () => {
+  await server?.stop();
+  removeServerFiles(mock);
+  await mock.stop();
+});
+
+test('GET /api/tools lists every registered tool', async () => {
+  const response = await request('GET', '/tools');
+  assert.equal(response.status, 200);
+  const names = response.body.data.tools.map((tool: any) => tool.name).sort();
+  assert.deepEqual(names, [...toolRegistry.names()].sort());
+});
+
+test('POST /api/tools/:toolName returns 404 for unknown tools', async () => {
+  const response = await request('POST', '/tools/does_not_exist', {});
+  assert.equal(response.status, 404);
+  assert.equal(response.body.error.code, 'TOOL_NOT_FOUND');
+});
+
+test('POST /api/tools/batch runs each tool', async () => {
+  const response = await request('POST', '/tools/batch', {
+    tools: [
+      { name: 'list_instances', args: {} },
+      { name: 'system_get_ip', args: {} },
+    ],
+  });
+  assert.equal(response.status, 200);
+  assert.equal(response.body.data.summary.failed, 0);
+});
+
+test('concurrent identical queries share one EasyPanel request', async () => {
+  const fetches = mock.callsTo('monitor.getSystemStats').length;
+
+  const response = await request('POST', '/tools/batch', {
+    tools: [
+      { name: 'get_system_stats', args: {} },
+      { name: 'get_system_stats', args: {} },
+      { name: 'get_system_stats', args: {} },
+    ],
+  });
+  assert.equal(response.status, 200);
+  assert.equal(response.body.data.summary.failed, 0);
+  assert.equal(mock.callsTo('monitor.getSystemStats').length, fetches + 1);
+});
+
+test('queries issued together go out as one tRPC batch', async () => {
+  const response = await request('POST', '/tools/batch', {
+    tools: [
+      { name: 'get_advanced_stats', args: {} },
+      { name: 'get_docker_task_stats', args: {} },
+    ],
+  });
+  assert.equal(response.status, 200);
+  assert.equal(response.body.data.summary.failed, 0);
+
+  const calls = [...mock.callsTo('monitor.getAdvancedStats'), ...mock.callsTo('monitor.getDockerTaskStats')];
+  assert.equal(calls.length, 2);
+  assert.ok(calls.every(call => call.batched && call.status === 200));
+});
+
+test('queries fall back to single requests when the server rejects batching', async () => {
+  mock.batching = false;
+  const unbatched = await startHttpServer('rest', mock);
+  try {
+    const response = await request('POST', '/tools/batch', {
+      tools: [
+        { name: 'system_get_ip', args: {} },
+        { name: 'system_get_domain', args: {} },
+      ],
+    }, unbatched);
+    assert.equal(response.status, 200);
+    for (const item of response.body.data.results) {
+      assert.equal(parseToolText(item.result).error, undefined, `${item.name} failed: ${JSON.stringify(item.result)}`);
+    }
+
+    assert.ok(mock.calls.some(call => call.procedure.includes(',') && call.status === 400));
+    const domainCalls = mock.callsTo('system.getPanelDomain');
+    assert.ok(domainCalls.length > 0);
+    assert.ok(domainCalls.every(call => !call.batched && call.status === 200));
+  } finally {
+    mock.batching = true;
+    await unbatched.stop();
+  }
+});
+
+test('responses that no longer match the procedure catalog fail with a schema drift error', async () => {
+  mock.replyNext('projects.inspectProject', { project: { name: 'drifted' }, services: [{ name: 42, type: 'app' }] });
+
+  const response = await request('POST', '/tools/inspect_project', { projectName: 'drifted' });
+  assert.equal(response.body.success, false);
+  assert.match(response.body.error.message, /projects\.inspectProject \(schema drift\)/);
+  assert.match(response.body.error.message, /services\.0\.name: Expected string, received number/);
+});
+
+test('timeoutMs limits each request of a tool call and the error names it', async () => {
+  mock.delayNext('services.app.restartService', 1000);
+
+  const response = await request('POST', '/tools/restart_service', {
+    projectName: 'slow',
+    serviceName: 'api',
+    timeoutMs: 100,
+  });
+  assert.equal(response.body.success, false);
+  assert.match(
+    response.body.error.message,
+    /Request to services\.app\.restartService timed out after 100ms \(timeoutMs set by the tool call\)/
+  );
+});
+
+test('procedures use the timeout class from the config file', async () => {
+  const configDir = mkdtempSync(path.join(tmpdir(), 'easypanel-mcp-'));
+  const configPath = path.join(configDir, 'config.json');
+  writeFileSync(configPath, JSON.stringify({
+    timeouts: { create: 100, procedures: { 'services.app.restartService': 'create' } },
+  }));
+
+  const configured = await startHttpServer('rest', mock, ['--config', configPath]);
+  try {
+    mock.delayNext('services.app.restartService', 1000);
+    const response = await request('POST', '/tools/restart_service', { projectName: 'slow', serviceName: 'api' }, configured);
+    assert.equal(response.body.success, false);
+    assert.match(response.body.error.message, /Request to services\.app\.restartService timed out after 100ms \(create timeout\)/);
+  } finally {
+    await configured.stop();
+    rmSync(configDir, { recursive: true, force: true });
+  }
+});
+
+test('--verbose JSON logs carry the request correlation id and no credentials', async () => {
+  const configDir = mkdtempSync(path.join(tmpdir(), 'easypanel-mcp-'));
+  const configPath = path.join(configDir, 'config.json');
+  writeFileSync(configPath, JSON.stringify({ logging: { format: 'json' } }));
+
+  const verbose = await startHttpServer('rest', mock, ['--verbose', '--config', configPath]);
+  try {
+    const response = await fetch(`${verbose.baseUrl}/api/tools/get_system_stats`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', 'X-Correlation-ID': 'trace-42' },
+      body: '{}',
+    });
+    assert.equal(response.status, 200);
+    assert.equal(response.headers.get('x-correlation-id'), 'trace-42');
+
+    const lines = verbose.output().split('\n').filter(line => line.trim()).map(line => JSON.parse(line));
+    const traced = lines.filter(line => line.correlationId === 'trace-42');
+    assert.ok(traced.some(line => line.component === 'REST API' && line.level === 'info'));
+    assert.ok(traced.some(line => line.component === 'EasyPanel' && line.level === 'debug'));
+    assert.ok(!verbose.output().includes(mock.credentials.password));
+  } finally {
+    await verbose.stop();
+    rmSync(configDir, { recursive: true, force: true });
+  }
+});
+
+test('GET /metrics reports tool calls, errors and EasyPanel request latencies', async () => {
+  await callTool('get_system_stats', {});
+  mock.failNext('projects.inspectProject', 500);
+  await request('POST', '/tools/inspect_project', { projectName: 'metered' });
+  await request('POST', '/tools/inspect_project', {});
+
+  const response = await fetch(`${server.baseUrl}/metrics`);
+  assert.equal(response.status, 200);
+  assert.match(response.headers.get('content-type') ?? '', /^text\/plain;.*version=0\.0\.4/);
+
+  const text = await response.text();
+  assert.match(text, /^easypanel_mcp_tool_calls_total\{tool="get_system_stats",outcome="success"\} \d+$/m);
+  assert.match(text, /^easypanel_mcp_tool_errors_total\{tool="inspect_project",category="EASYPANEL_API"\} \d+$/m);
+  assert.match(text, /^easypanel_mcp_tool_errors_total\{tool="inspect_project",category="VALIDATION"\} \d+$/m);
+  assert.match(text, /^easypanel_mcp_tool_duration_seconds_count\{tool="get_system_stats"\} \d+$/m);
+  assert.match(text, /^easypanel_mcp_api_request_duration_seconds_count\{procedure="projects\.inspectProject",outcome="error"\} \d+$/m);
+  assert.match(text, /^easypanel_mcp_cache_hits_total\{instance="default"\} \d+$/m);
+  assert.match(text, /^# TYPE easypanel_mcp_rate_limit_rejections_total counter$/m);
+});
+
+test('cache hit and miss counters keep counting when a mutation clears the cache', async () => {
+  const scrape = async () => {
+    const text = await (await fetch(`${server.baseUrl}/metrics`)).text();
+    return Number(/^easypanel_mcp_cache_hits_total\{instance="default"\} (\d+)$/m.exec(text)?.[1]);
+  };
+
+  await callTool('list_projects', {});
+  await callTool('list_projects', {});
+  const before = await scrape();
+  assert.ok(before > 0);
+
+  await request('POST', '/tools/restart_service', { projectName: 'metered', serviceName: 'api' });
+  assert.ok(await scrape() >= before);
+});
+
+test('tool calls write OTLP spans with a child span per EasyPanel request', async () => {
+  const configDir = mkdtempSync(path.join(tmpdir(), 'easypanel-mcp-'));
+  const configPath = path.join(configDir, 'config.json');
+  const tracePath = path.join(configDir, 'traces.jsonl');
+  writeFileSync(configPath, JSON.stringify({ tracing: { output: tracePath } }));
+
+  const traced = await startHttpServer('rest', mock, ['--config', configPath]);
+  try {
+    await request('POST', '/tools/system_get_ip', {}, traced);
+    await request('POST', '/tools/restart_service', { projectName: 'traced', serviceName: 'api' }, traced);
+
+    let spans: any[] = [];
+    for (let attempt = 0; attempt < 50 && spans.filter(span => span.name.startsWith('tool ')).length < 2; attempt++) {
+      await new Promise(resolve => setTimeout(resolve, 100));
+      spans = existsSync(tracePath)
+        ? readFileSync(tracePath, 'utf8').trim().split('\n').map(line => JSON.parse(line).resourceSpans[0].scopeSpans[0].spans[0])
+        : [];
+    }
+
+    const attribute = (span: any, key: string) => span.attributes.find((item: any) => item.key === key)?.value;
+    const toolSpan = (tool: string) => spans.find(span => span.name === `tool ${tool}`);
+    const childrenOf = (parent: any) => spans.filter(span => span.parentSpanId === parent.spanId);
+
+    const ipSpan = toolSpan('system_get_ip');
+    assert.ok(ipSpan, `no tool span in ${JSON.stringify(spans)}`);
+    assert.equal(ipSpan.parentSpanId, undefined);
+    assert.match(ipSpan.traceId, /^[0-9a-f]{32}$/);
+    assert.ok(BigInt(ipSpan.endTimeUnixNano) >= BigInt(ipSpan.startTimeUnixNano));
+    assert.ok(childrenOf(ipSpan).some(span => span.name.startsWith('query ') && span.traceId === ipSpan.traceId));
+
+    const restartSpan = toolSpan('restart_service');
+    const mutation = childrenOf(restartSpan).find(span => span.name === 'mutate services.app.restartService');
+    assert.ok(mutation, `no mutation span in ${JSON.stringify(spans)}`);
+    assert.equal(mutation.status.code, 2);
+    assert.deepEqual(attribute(mutation, 'http.request.method'), { stringValue: 'POST' });
+    assert.deepEqual(attribute(mutation, 'http.response.status_code'), { intValue: '404' });
+  } finally {
+    await traced.stop();
+    rmSync(configDir, { recursive: true, force: true });
+  }
+});
+
+test('GET /api/audit filters the audit log', async () => {
+  await callTool('create_project', { projectName: 'audited' });
+
+  const response = await request('GET', '/audit?projectName=audited&limit=5');
+  assert.equal(response.status, 200);
+  assert.deepEqual(response.body.data.entries.map((entry: any) => entry.procedure), ['projects.createProject']);
+  assert.equal(response.body.data.entries[0].clientType, response.body.meta.clientType);
+  assert.equal(response.body.data.entries[0].sessionId, sessionId);
+
+  const invalid = await request('GET', '/audit?since=yesterday');
+  assert.equal(invalid.status, 400);
+});
+
+test('cached project lists survive a server restart', async () => {
+  await callTool('list_projects', {});
+  const fetches = mock.callsTo('projects.listProjectsAndServices').length;
+
+  const restarted = await startHttpServer('rest', mock);
+  try {
+    const response = await request('POST', '/tools/list_projects', {}, restarted);
+    assert.equal(response.status, 200);
+    assert.equal(mock.callsTo('projects.listProjectsAndServices').length, fetches);
+  } finally {
+    await restarted.stop();
+  }
+});
+
+test('--read-only and the config policy restrict listing, calls and reveal', async () => {
+  const configDir = mkdtempSync(path.join(tmpdir(), 'easypanel-mcp-'));
+  const configPath = path.join(configDir, 'config.json');
+  writeFileSync(configPath, JSON.stringify({ policy: { deny: ['system_get_*'], allowReveal: false } }));
+
+  const restricted = await startHttpServer('rest', mock, ['--read-only', '--config', configPath]);
+  try {
+    const listing = await request('GET', '/tools', undefined, restricted);
+    const names: string[] = listing.body.data.tools.map((tool: any) => tool.name);
+    const expected = toolRegistry.names().filter(name =>
+      toolRegistry.get(name)!.annotations?.readOnlyHint === true && !name.startsWith('system_get_')
+    );
+    assert.deepEqual(names.sort(), expected.sort());
+
+    const write = await request('POST', '/tools/create_project', { projectName: 'blocked' }, restricted);
+    assert.equal(write.status, 403);
+    assert.equal(write.body.error.code, 'TOOL_DISABLED');
+    assert.ok(!mock.hasProject('blocked'));
+
+    const denied = await request('POST', '/tools/system_get_ip', {}, restricted);
+    assert.equal(denied.status, 403);
+
+    const read = await request('POST', '/tools/list_projects', {}, restricted);
+    assert.equal(read.status, 200);
+
+    const revealed = await request('POST', '/tools/list_projects', { reveal: true }, restricted);
+    assert.equal(revealed.status, 403);
+    assert.equal(revealed.body.error.code, 'REVEAL_DISABLED');
+  } finally {
+    await restricted.stop();
+    rmSync(configDir, { recursive: true, force: true });
+  }
+});
+
+defineToolSuite(() => mock, () => callTool);
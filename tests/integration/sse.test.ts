@@ -0,0 +1,42 @@
+/**
+ * SSE / streamable HTTP transport integration tests
+ */
+
+import assert from 'node:assert/strict';
+import { after, before, test } from 'node:test';
+import { randomUUID } from 'node:crypto';
+import { Client } from '@modelcontextprotocol/sdk/client/index.js';
+import { StreamableHTTPClientTransport } from '@modelcontextprotocol/sdk/client/streamableHttp.js';
+import { MockEasyPanelServer } from '../mock/easypanel-server.js';
+import { removeServerFiles, RunningServer, startHttpServer } from '../helpers/server.js';
+import { defineToolSuite } from '../helpers/tool-suite.js';
+
+const mock = new MockEasyPanelServer();
+const client = new Client({ name: 'easypanel-mcp-tests', version: '1.0.0' });
+let server: RunningServer;
+
+before(async () => {
+  await mock.start();
+  server = await startHttpServer('sse', mock);
+
+  // The HTTP transport keys its MCP sessions on this header, so keep it constant
+  const transport = new StreamableHTTPClientTransport(new URL(`${server.baseUrl}/mcp`), {
+    requestInit: { headers: { 'x-mcp-session-id': randomUUID() } },
+  });
+  await client.connect(transport);
+});
+
+after(async () => {
+  await client.close();
+  await server?.stop();
+  removeServerFiles(mock);
+  await mock.stop();
+});
+
+test('GET /metrics counts the open MCP session', async () => {
+  const response = await fetch(`${server.baseUrl}/metrics`);
+  assert.equal(response.status, 200);
+  assert.match(await response.text(), /^easypanel_mcp_sse_connections\{kind="session"\} [1-9]\d*$/m);
+});
+
+defineToolSuite(() => mock, () => (tool, args) => client.callTool({ name: tool, arguments: args }));